@@ -1 +1,18 @@
-export {}
+export {
+  volumeFromArchive,
+  volumeToArchive,
+  type VolumeArchiveFormat,
+  type VolumeFromArchiveOptions,
+  type VolumeToArchiveOptions,
+} from './util/volume-archive.js'
+export { cloneVolume, loadVolumeFromDir, type LoadVolumeFromDirOptions } from './util/volume.js'
+export {
+  binary,
+  createVolume,
+  file,
+  symlink,
+  type CreateVolumeOptions,
+  type VolumeSpec,
+} from './util/volume-spec.js'
+export { volumeSerializer } from './util/volume-serialize.js'
+export { volumeEqualityTester } from './util/volume-equality.js'
@@ -0,0 +1,323 @@
+import { describe, it, expect, vi, beforeAll, afterAll, SnapshotUpdateState } from 'vitest'
+import path from 'node:path'
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import fsx from 'fs-extra'
+import { Volume } from 'memfs'
+import { makeTests, makeVol, VolumeInput } from '@test/util.js'
+import toMatchInlineVolumeSnapshot, {
+  VolumeInlineSnapshotMatcherOptions,
+} from '../toMatchInlineVolumeSnapshot.js'
+
+const execFileAsync = promisify(execFile)
+
+interface TestCase {
+  name: string
+  received: VolumeInput
+  snapshot?: string
+  options?: VolumeInlineSnapshotMatcherOptions
+  update?: SnapshotUpdateState
+  pass: boolean
+}
+
+const cases = makeTests<TestCase>([
+  {
+    name: 'matching snapshot',
+    received: { '/foo.txt': 'hi', '/logs': null },
+    snapshot: `
+      Volume {
+        foo.txt
+          | hi
+        logs/
+      }
+    `,
+    pass: true,
+  },
+  {
+    name: 'matching snapshot is kept when updating',
+    received: { '/foo.txt': 'hi' },
+    snapshot: `
+      Volume {
+        foo.txt
+          | hi
+      }
+    `,
+    update: 'all',
+    pass: true,
+  },
+  {
+    name: 'mismatching snapshot is updated',
+    received: { '/foo.txt': 'hello' },
+    snapshot: `
+      Volume {
+        foo.txt
+          | hi
+      }
+    `,
+    update: 'all',
+    pass: true,
+  },
+  {
+    name: 'matching single-line snapshot',
+    received: {},
+    snapshot: 'Volume {}',
+    pass: true,
+  },
+  {
+    name: 'content mismatch',
+    received: { '/foo.txt': 'hello\nworld\n' },
+    snapshot: `
+      Volume {
+        foo.txt
+          | hello
+          |
+      }
+    `,
+    pass: false,
+  },
+  {
+    name: 'symlinks and binary files',
+    received: () => {
+      const v = makeVol({
+        '/bin.dat': Buffer.from([0xde, 0xad, 0xbe, 0xef]),
+        '/foo.txt': 'hi',
+      })
+      v.symlinkSync('/foo.txt', '/link.txt')
+      return v
+    },
+    snapshot: `
+      Volume {
+        bin.dat (binary, 4 bytes, sha1 d78f8bb992a56a597f6c7a1fb918bb78271367eb, base64 3q2+7w==)
+        foo.txt
+          | hi
+        link.txt -> /foo.txt
+      }
+    `,
+    pass: true,
+  },
+  {
+    name: 'respects prefix option',
+    received: { '/src/foo.txt': 'hi', '/other.txt': 'ignored' },
+    snapshot: `
+      Volume {
+        foo.txt
+          | hi
+      }
+    `,
+    options: { prefix: '/src' },
+    pass: true,
+  },
+  {
+    name: 'respects include/exclude options',
+    received: { '/foo.txt': 'hi', '/foo.log': 'log', '/node_modules/x.js': '' },
+    snapshot: `
+      Volume {
+        foo.txt
+          | hi
+      }
+    `,
+    options: { include: '**/*.txt', exclude: 'node_modules' },
+    pass: true,
+  },
+  {
+    name: 'respects normalize option',
+    received: { '/foo.txt': 'hi  \r\nthere\r\n' },
+    snapshot: `
+      Volume {
+        foo.txt
+          | hi
+          | there
+      }
+    `,
+    options: { normalize: true },
+    pass: true,
+  },
+  {
+    name: 'new snapshot',
+    received: { '/foo.txt': 'hi' },
+    pass: true,
+  },
+  {
+    name: 'missing snapshot on ci',
+    received: { '/foo.txt': 'hi' },
+    update: 'none',
+    pass: false,
+  },
+  {
+    name: 'invalid volume',
+    received: () => 'invalid' as any,
+    snapshot: '',
+    pass: false,
+  },
+])
+
+describe('toMatchInlineVolumeSnapshot()', () => {
+  describe('unit', () => {
+    // compares and "writes" snapshots like vitest's `SnapshotState.match()`
+    const mockState = (updateSnapshot: SnapshotUpdateState) => ({
+      currentTestName: expect.getState().currentTestName,
+      snapshotState: {
+        _updateSnapshot: updateSnapshot,
+        environment: {
+          readSnapshotFile: vi.fn(),
+          saveSnapshotFile: vi.fn(),
+        },
+        added: { increment: vi.fn() },
+        updated: { increment: vi.fn() },
+        matched: { increment: vi.fn() },
+        unmatched: { increment: vi.fn() },
+        match: vi.fn(({ received, inlineSnapshot }) => {
+          const actual: string = received.text
+          const pass =
+            actual === inlineSnapshot?.trim() ||
+            updateSnapshot === 'all' ||
+            (updateSnapshot === 'new' && inlineSnapshot == null)
+          return { pass, actual: pass ? '' : actual, expected: pass ? '' : inlineSnapshot }
+        }),
+      },
+      utils: {
+        printReceived: (received: unknown) => `received(${JSON.stringify(received)})`,
+        matcherHint: (matcherName: string) => `hint(${matcherName})`,
+      },
+    })
+
+    async function testRunnerUnit({ received, snapshot, options, pass, update }: TestCase) {
+      const actVol = makeVol(received)
+      const state = mockState(update ?? 'new')
+      const matcher = toMatchInlineVolumeSnapshot.bind(state as any)
+      const args: unknown[] = options ? [options, snapshot] : [snapshot]
+      const result = await (matcher as any)(actVol, ...args)
+      expect(result).toHaveProperty('pass', pass)
+      expect({ ...result, message: result.message() }).toMatchSnapshot('result')
+      const { match } = state.snapshotState
+      if (!(actVol instanceof Volume)) {
+        expect(match).not.toHaveBeenCalled()
+      } else {
+        expect(match).toHaveBeenCalledWith(
+          expect.objectContaining({ isInline: true, error: expect.any(Error) }),
+        )
+      }
+    }
+
+    it.each(cases.normal)('$name', testRunnerUnit)
+    it.only.each(cases.only)('$name', testRunnerUnit)
+    it.skip.each(cases.skip)('$name', testRunnerUnit)
+  })
+
+  describe('integration', () => {
+    it('works correctly', async () => {
+      const vol = makeVol({
+        '/foo.txt': 'hello\nworld\n',
+        '/bin/data.bin': Buffer.alloc(1_000, 0xbb),
+        '/logs': null,
+      })
+      vol.symlinkSync('/foo.txt', '/bin/foo-link.txt')
+      await expect(vol).toMatchInlineVolumeSnapshot(`
+        Volume {
+          bin/
+            data.bin (binary, 1000 bytes, sha1 b7c576db4dc881c703f9a81bbc6768676d6a5936, base64 u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7s=...u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7s=)
+            foo-link.txt -> /foo.txt
+          foo.txt
+            | hello
+            | world
+            |
+          logs/
+        }
+      `)
+    })
+
+    it('works with options', async () => {
+      const vol = makeVol({
+        '/src/index.js': 'export default `${value}\\n`',
+        '/src/index.test.js': '',
+      })
+      await expect(vol).toMatchInlineVolumeSnapshot(
+        { prefix: '/src', exclude: '*.test.js' },
+        `
+        Volume {
+          index.js
+            | export default \`\${value}\\n\`
+        }
+      `,
+      )
+    })
+
+    it('throws when used with not', async () => {
+      const vol = makeVol({ '/foo.txt': 'hi' })
+      await expect(
+        () => expect(vol).not.toMatchInlineVolumeSnapshot(''), //
+      ).rejects.toThrow(/cannot be used with `not`/)
+    })
+  })
+
+  describe('writing', () => {
+    const vitestBin = path.resolve('node_modules/vitest/vitest.mjs')
+    const srcDir = path.resolve(__dirname, '../..')
+    let tempDir: string
+
+    beforeAll(async () => {
+      // inside the repo, so the temp test file resolves `vitest` and `memfs`
+      tempDir = await fsx.mkdtemp(path.join(__dirname, '.temp-inline-'))
+      await fsx.writeFile(
+        path.join(tempDir, 'vitest.config.mjs'),
+        `export default {
+          test: { include: ['*.test.ts'], setupFiles: [${JSON.stringify(`${srcDir}/setup.ts`)}] },
+          resolve: { alias: { '@': ${JSON.stringify(srcDir)} } },
+        }\n`,
+      )
+    })
+    afterAll(() => fsx.remove(tempDir))
+
+    const testFile = (contents: string) => `import { it, expect } from 'vitest'
+import { Volume } from 'memfs'
+
+it('writes inline snapshots', async () => {
+  const vol = Volume.fromJSON({ '/src/index.js': ${JSON.stringify(contents)}, '/logs': null })
+  expect({ files: 2 }).toMatchInlineSnapshot()
+  await expect(vol).toMatchInlineVolumeSnapshot()
+  await expect(vol).toMatchInlineVolumeSnapshot({ prefix: '/src' })
+  expect(vol).toMatchInlineSnapshot()
+})
+`
+
+    const runVitest = (...args: string[]) =>
+      execFileAsync(
+        process.execPath,
+        [vitestBin, 'run', '--config', 'vitest.config.mjs', ...args],
+        {
+          cwd: tempDir,
+          env: { ...process.env, CI: 'true', NO_COLOR: '1' },
+        },
+      )
+
+    it('creates and updates snapshots in the test file', { timeout: 60_000 }, async () => {
+      const filePath = path.join(tempDir, 'inline.test.ts')
+      await fsx.writeFile(filePath, testFile('export default 1\n'))
+      await runVitest('-u')
+      const created = await fsx.readFile(filePath, 'utf8')
+      expect(created).toMatchSnapshot('created')
+
+      // the body of the test changes, the snapshots are updated in place
+      await fsx.writeFile(filePath, created.replace('export default 1', 'export default 2'))
+      await expect(runVitest()).rejects.toThrow(/didn’t match the inline snapshot/)
+      await runVitest('-u')
+      const updated = await fsx.readFile(filePath, 'utf8')
+      expect(updated).toMatchSnapshot('updated')
+      await runVitest()
+    })
+
+    it('fails on missing snapshots on ci', { timeout: 60_000 }, async () => {
+      const filePath = path.join(tempDir, 'inline.test.ts')
+      const code = `import { it, expect } from 'vitest'
+import { Volume } from 'memfs'
+
+it('writes inline snapshots', async () => {
+  await expect(Volume.fromJSON({ '/foo.txt': 'hi' })).toMatchInlineVolumeSnapshot()
+})
+`
+      await fsx.writeFile(filePath, code)
+      await expect(runVitest()).rejects.toThrow(/Inline snapshot does not exist/)
+      expect(await fsx.readFile(filePath, 'utf8')).toBe(code)
+    })
+  })
+})
@@ -2,6 +2,13 @@ import { describe, it, expect } from 'vitest'
 import { vol } from 'memfs'
 import { makeTests, makeVol, VolumeInput } from '@test/util.js'
 import toMatchVolume, { VolumeMatcherOptions } from '../toMatchVolume.js'
+import {
+  toBinarySnapshotSync,
+  toJsonSnapshotSync,
+  toSnapshotSync,
+} from 'memfs/lib/snapshot/index.js'
+import { binary, file, symlink } from '@/util/volume-spec.js'
+import { cloneVolume } from '@/util/volume.js'
 
 interface TestCase {
   name: string
@@ -12,6 +19,25 @@ interface TestCase {
   not?: boolean
 }
 
+// generates `line N` text content, returning null from `map` drops the line
+function makeLines(count: number, map = (i: number): unknown => i, ...extra: string[]) {
+  return Array.from({ length: count }, (_, i) => map(i))
+    .filter((value) => value !== null)
+    .map((value) => `line ${value}`)
+    .concat(extra.map((value) => `line ${value}`))
+    .join('\n')
+}
+
+// creates a volume with `hi` files whose atime/mtime are set to the start of the given year
+function makeTimedVol(years: Record<string, number>) {
+  const v = makeVol(Object.fromEntries(Object.keys(years).map((p) => [p, 'hi'])))
+  for (const [p, year] of Object.entries(years)) {
+    const time = new Date(Date.UTC(year, 0))
+    v.utimesSync(p, time, time)
+  }
+  return v
+}
+
 const cases = makeTests<TestCase>([
   {
     name: 'identical files',
@@ -35,12 +61,89 @@ const cases = makeTests<TestCase>([
     expected: { '/foo.txt': 'world' },
     pass: false,
   },
+  {
+    name: 'multi-line content mismatch',
+    received: { '/gen.ts': makeLines(40, (i) => (i === 19 ? 'changed' : i)) },
+    expected: { '/gen.ts': makeLines(40) },
+    pass: false,
+  },
+  {
+    name: 'multi-line content mismatch with multiple hunks',
+    received: { '/gen.ts': makeLines(30, (i) => (i === 3 ? null : i), 'extra') },
+    expected: { '/gen.ts': makeLines(30) },
+    options: { contextLines: 1 },
+    pass: false,
+  },
+  {
+    name: 'multi-line content mismatch with hunks one line apart',
+    received: { '/gen.ts': makeLines(12, (i) => (i === 3 ? 'a' : i === 6 ? 'b' : i)) },
+    expected: { '/gen.ts': makeLines(12) },
+    options: { contextLines: 1 },
+    pass: false,
+  },
+  {
+    name: 'missing newline at end of file',
+    received: { '/foo.txt': 'foo\nbar' },
+    expected: { '/foo.txt': 'foo\nbar\n' },
+    pass: false,
+  },
+  {
+    name: 'long single-line content mismatch',
+    received: {
+      '/app.min.js': `var a=1;${'function f(){return "foo"};'.repeat(20)}var b=3;${'x=1;'.repeat(50)}`,
+    },
+    expected: {
+      '/app.min.js': `var a=1;${'function f(){return "foo"};'.repeat(20)}var b=2;${'x=1;'.repeat(50)}`,
+    },
+    pass: false,
+  },
   {
     name: 'accepts json input',
     received: { '/foo.txt': 'hi' },
     expected: () => ({ '/foo.txt': 'hi' }) as any,
     pass: true,
   },
+  {
+    name: 'accepts matchers as json file contents',
+    received: {
+      '/index.html': '<script src="main.a1b2c3.js"></script>',
+      '/version.txt': 'v12',
+      '/build.log': `built at ${Date.now()}`,
+      '/main.a1b2c3.js': 'console.log(1)',
+      '/README.md': '# hi',
+    },
+    expected: () =>
+      ({
+        '/index.html': expect.stringMatching(/main\.\w+\.js/),
+        '/version.txt': /^v\d+$/g,
+        '/build.log': expect.stringContaining('built at'),
+        '/main.a1b2c3.js': expect.any(String),
+        '/README.md': { asymmetricMatch: (content: string) => content.startsWith('#') },
+      }) as any,
+    pass: true,
+  },
+  {
+    name: 'accepts matchers as json file contents (mismatch)',
+    received: { '/version.txt': 'next', '/build.log': 'failed', '/hash.txt': 'a1b2' },
+    expected: () =>
+      ({
+        '/version.txt': /^v\d+$/,
+        '/build.log': expect.stringContaining('built at'),
+        '/hash.txt': expect.stringMatching(/^\w+$/),
+      }) as any,
+    pass: false,
+  },
+  {
+    name: 'accepts matchers as json file contents (missing)',
+    received: { '/foo.txt': 'hi', '/dir/version.txt': 'v1' },
+    expected: () =>
+      ({
+        '/foo.txt': 'hi',
+        '/dir': expect.any(String),
+        '/version.txt': expect.stringMatching(/^v\d+$/),
+      }) as any,
+    pass: false,
+  },
   {
     name: 'invalid type (received)',
     received: () => 'invalid' as any,
@@ -192,6 +295,218 @@ const cases = makeTests<TestCase>([
     options: { prefix: '/src' },
     pass: true,
   },
+  {
+    name: 'respects exclude option',
+    received: {
+      '/foo.txt': 'hi',
+      '/.DS_Store': 'noise',
+      '/src/.DS_Store': 'noise',
+      '/node_modules/dep/index.js': 'dep',
+    },
+    expected: { '/foo.txt': 'hi', '/.cache/data.json': '{}' },
+    options: { exclude: ['node_modules', '.cache', '**/.DS_Store'] },
+    pass: true,
+  },
+  {
+    name: 'respects include option',
+    received: { '/src/index.ts': 'export {}', '/src/index.js': 'module.exports = {}' },
+    expected: { '/src/index.ts': 'export {}', '/dist/index.js': 'exports.a = 1' },
+    options: { include: '**/*.ts' },
+    pass: true,
+  },
+  {
+    name: 'respects include and exclude options (mismatch)',
+    received: { '/src/index.ts': 'export {}', '/src/util.ts': 'export {}' },
+    expected: { '/src/index.ts': 'export {}', '/src/main.ts': 'export {}', '/src/util.ts': 'x' },
+    options: { include: '**/*.ts', exclude: 'util.ts', prefix: '/src' },
+    pass: false,
+  },
+  {
+    name: 'respects normalize option',
+    received: { '/foo.txt': 'hi  \r\nthere\t\r\n', '/bar.txt': 'bar' },
+    expected: { '/foo.txt': 'hi\nthere', '/bar.txt': 'bar\n' },
+    options: { normalize: true },
+    pass: true,
+  },
+  {
+    name: 'respects normalize option (mismatch)',
+    received: { '/foo.txt': 'hi  \r\nthere\r\n' },
+    expected: { '/foo.txt': 'hi\nthere\n' },
+    options: { normalize: { eol: true } },
+    pass: false,
+  },
+  {
+    name: 'respects normalize.transform option',
+    received: { '/src/main.js': 'import "./chunk-a1b2c3.js"', '/hash.txt': 'a1b2c3' },
+    expected: { '/src/main.js': 'import "./chunk-ffffff.js"', '/hash.txt': 'a1b2c3' },
+    options: {
+      normalize: {
+        transform: {
+          '**/*.js': (_, text) => text.replace(/chunk-\w+/g, 'chunk-[hash]'),
+        },
+      },
+    },
+    pass: true,
+  },
+  {
+    name: 'respects normalize.transform option (mismatch)',
+    received: { '/src/main.js': 'import "./chunk-a1b2c3.js"', '/hash.txt': 'a1b2c3' },
+    expected: { '/src/main.js': 'import "./chunk-ffffff.js"', '/hash.txt': 'ffffff' },
+    options: {
+      normalize: {
+        transform: {
+          'src/*.js': (_, text) => text.replace(/chunk-\w+/g, 'chunk-[hash]'),
+        },
+      },
+    },
+    pass: false,
+  },
+  {
+    name: 'respects json option',
+    received: {
+      '/package.json': '{"name":"foo","version":"1.0.0","scripts":{"b":"2","a":"1"}}',
+      '/data.map': '{ "b": 1, "a": [1, 2] }',
+    },
+    expected: {
+      '/package.json': JSON.stringify(
+        { version: '1.0.0', name: 'foo', scripts: { a: '1', b: '2' } },
+        null,
+        2,
+      ),
+      '/data.map': '{"a":[1,2],"b":1}',
+    },
+    options: { json: ['**/*.json', '**/*.map'] },
+    pass: true,
+  },
+  {
+    name: 'respects json option (mismatch)',
+    received: {
+      '/package.json': '{"name":"foo","version":"1.0.1","dependencies":{"bar":"^1.0.0"}}',
+    },
+    expected: {
+      '/package.json': JSON.stringify({ version: '1.0.0', name: 'foo', dependencies: {} }, null, 2),
+    },
+    options: { json: true },
+    pass: false,
+  },
+  {
+    name: 'respects json option (invalid json)',
+    received: { '/tsconfig.json': '{ "strict": true, // comment\n }' },
+    expected: { '/tsconfig.json': '{ "strict": true }' },
+    options: { json: true },
+    pass: false,
+  },
+  {
+    name: 'respects metadata option',
+    received: () => {
+      const v = makeVol({ '/bin/cli.js': '#!/usr/bin/env node', '/empty': null })
+      v.chmodSync('/bin/cli.js', 0o755)
+      v.chmodSync('/empty', 0o700)
+      return v
+    },
+    expected: () => {
+      const v = makeVol({ '/bin/cli.js': '#!/usr/bin/env node', '/empty': null })
+      v.chmodSync('/bin/cli.js', 0o755)
+      v.chmodSync('/empty', 0o700)
+      return v
+    },
+    options: { metadata: true },
+    pass: true,
+  },
+  {
+    name: 'respects metadata option (mismatch)',
+    received: { '/bin/cli.js': '#!/usr/bin/env node', '/empty': null },
+    expected: () => {
+      const v = makeVol({ '/bin/cli.js': '#!/usr/bin/env node', '/empty': null })
+      v.chmodSync('/bin/cli.js', 0o755)
+      v.chmodSync('/empty', 0o700)
+      return v
+    },
+    options: { metadata: true },
+    pass: false,
+  },
+  {
+    name: 'respects metadata option (uid/gid)',
+    received: () => {
+      const v = makeVol({ '/foo.txt': 'hi' })
+      v.chownSync('/foo.txt', 1000, 1000)
+      return v
+    },
+    expected: () => {
+      const v = makeVol({ '/foo.txt': 'hi' })
+      v.chownSync('/foo.txt', 1000, 100)
+      return v
+    },
+    options: { metadata: { uid: true, gid: true } },
+    pass: false,
+  },
+  {
+    name: 'ignores metadata by default',
+    received: { '/bin/cli.js': '#!/usr/bin/env node' },
+    expected: () => {
+      const v = makeVol({ '/bin/cli.js': '#!/usr/bin/env node' })
+      v.chmodSync('/bin/cli.js', 0o755)
+      return v
+    },
+    pass: true,
+  },
+  {
+    name: 'respects timestamps option',
+    received: () => makeTimedVol({ '/a.txt': 2020, '/b.txt': 2021, '/c.txt': 2022 }),
+    expected: () => makeTimedVol({ '/a.txt': 2020, '/b.txt': 2020, '/c.txt': 2020 }),
+    options: { timestamps: { unchanged: 'a.txt', changed: ['b.txt'] } },
+    pass: true,
+  },
+  {
+    name: 'respects timestamps option (changed contents)',
+    received: () => {
+      const v = makeTimedVol({ '/a.txt': 2020, '/b.txt': 2021 })
+      v.writeFileSync('/b.txt', 'hello')
+      v.symlinkSync('/b.txt', '/link.txt')
+      v.lutimesSync('/link.txt', new Date(Date.UTC(2021, 0)), new Date(Date.UTC(2021, 0)))
+      return v
+    },
+    expected: () => {
+      const v = makeTimedVol({ '/a.txt': 2020, '/b.txt': 2020 })
+      v.symlinkSync('/a.txt', '/link.txt')
+      v.lutimesSync('/link.txt', new Date(Date.UTC(2020, 0)), new Date(Date.UTC(2020, 0)))
+      return v
+    },
+    options: { timestamps: { unchanged: 'a.txt', changed: ['b.txt', 'link.txt'] } },
+    pass: true,
+  },
+  {
+    name: 'respects timestamps option (unchanged contents mismatch)',
+    received: () => {
+      const v = makeTimedVol({ '/a.txt': 2020 })
+      v.writeFileSync('/a.txt', 'hello')
+      v.utimesSync('/a.txt', new Date(Date.UTC(2020, 0)), new Date(Date.UTC(2020, 0)))
+      return v
+    },
+    expected: () => makeTimedVol({ '/a.txt': 2020 }),
+    options: { timestamps: { unchanged: '**' } },
+    pass: false,
+  },
+  {
+    name: 'respects timestamps option (unchanged mismatch)',
+    received: () => makeTimedVol({ '/a.txt': 2020, '/dist/b.js': 2021 }),
+    expected: () => makeTimedVol({ '/a.txt': 2020, '/dist/b.js': 2020 }),
+    options: { timestamps: { unchanged: '**' } },
+    pass: false,
+  },
+  {
+    name: 'respects timestamps option (changed mismatch)',
+    received: () => makeTimedVol({ '/a.txt': 2020, '/b.txt': 2020 }),
+    expected: () => makeTimedVol({ '/a.txt': 2020, '/b.txt': 2020 }),
+    options: { timestamps: { changed: '*.txt' } },
+    pass: false,
+  },
+  {
+    name: 'timestamps option requires a volume',
+    received: () => makeTimedVol({ '/a.txt': 2020 }),
+    expected: () => ({ '/a.txt': 'hi' }) as any,
+    options: { timestamps: { unchanged: '**' } },
+  },
   {
     name: 'binary files match',
     received: () => {
@@ -237,6 +552,98 @@ const cases = makeTests<TestCase>([
     },
     pass: false,
   },
+  {
+    name: 'spec: nested dirs, symlinks, binaries and modes',
+    received: () => {
+      const v = makeVol({
+        '/src/index.js': 'export default 1',
+        '/bin/cli.sh': 'echo hi',
+        '/bin/data.bin': Buffer.from([0xde, 0xad, 0xbe, 0xef]),
+        '/logs': null,
+        '/tmp': null,
+      })
+      v.chmodSync('/bin/cli.sh', 0o755)
+      v.symlinkSync('/src/index.js', '/index.js')
+      return v
+    },
+    expected: () =>
+      ({
+        '/src': { 'index.js': 'export default 1' },
+        '/bin': {
+          'cli.sh': file('echo hi', { mode: 0o755 }),
+          'data.bin': binary([0xde, 0xad, 0xbe, 0xef]),
+        },
+        '/index.js': symlink('/src/index.js'),
+        '/logs': null,
+        '/tmp': {},
+      }) as any,
+    options: { metadata: true },
+    pass: true,
+  },
+  {
+    name: 'spec: symlink target mismatch',
+    received: () => {
+      const v = makeVol({ '/foo.txt': 'hi' })
+      v.symlinkSync('/foo.txt', '/link')
+      return v
+    },
+    expected: () => ({ '/foo.txt': 'hi', '/link': symlink('/bar.txt') }) as any,
+    pass: false,
+  },
+  {
+    name: 'spec: mode mismatch',
+    received: { '/bin/cli.sh': 'echo hi' },
+    expected: () => ({ '/bin': { 'cli.sh': file('echo hi', { mode: 0o755 }) } }) as any,
+    options: { metadata: true },
+    pass: false,
+  },
+  {
+    name: 'spec: matchers in nested dirs',
+    received: { '/dist/main.js': 'console.log(1)', '/dist/main.js.map': '{}' },
+    expected: () =>
+      ({
+        '/dist': {
+          'main.js': file(/console\.log/),
+          'main.js.map': expect.any(String),
+        },
+      }) as any,
+    pass: true,
+  },
+  {
+    name: 'spec: invalid value',
+    received: { '/foo.txt': 'hi' },
+    expected: () => ({ '/foo.txt': 42 }) as any,
+  },
+  {
+    name: 'memfs snapshot: snapshot node',
+    received: () => {
+      const v = makeVol({ '/src/index.js': 'export default 1', '/logs': null })
+      v.symlinkSync('/src/index.js', '/index.js')
+      return v
+    },
+    expected: () => {
+      const v = makeVol({ '/src/index.js': 'export default 1', '/logs': null })
+      v.symlinkSync('/src/index.js', '/index.js')
+      return toSnapshotSync({ fs: v as any, path: '/' }) as any
+    },
+    pass: true,
+  },
+  {
+    name: 'memfs snapshot: json buffer',
+    received: { '/foo.txt': 'hi', '/bar/baz.txt': 'hey' },
+    expected: () =>
+      toJsonSnapshotSync({
+        fs: makeVol({ '/foo.txt': 'hi', '/bar/baz.txt': 'hey' }) as any,
+      }) as any,
+    pass: true,
+  },
+  {
+    name: 'memfs snapshot: cbor buffer (mismatch)',
+    received: { '/foo.txt': 'hi', '/bar/baz.txt': 'hey' },
+    expected: () =>
+      toBinarySnapshotSync({ fs: makeVol({ '/foo.txt': 'hello', '/bar': null }) as any }) as any,
+    pass: false,
+  },
   {
     name: 'not: identical files',
     received: { '/foo.txt': 'hi' },
@@ -329,5 +736,31 @@ describe('toMatchVolume()', () => {
     it.each(cases.normal)('$name', testRunnerInteg)
     it.only.each(cases.only)('$name', testRunnerInteg)
     it.skip.each(cases.skip)('$name', testRunnerInteg)
+
+    it('compares timestamps against a copy of the volume', () => {
+      const vol = makeTimedVol({ '/a.txt': 2020, '/b.txt': 2020 })
+      const baseline = cloneVolume(vol)
+      const time = new Date(Date.UTC(2021, 0))
+      vol.utimesSync('/b.txt', time, time)
+      expect(vol).toMatchVolume(baseline, { timestamps: { unchanged: 'a.txt', changed: 'b.txt' } })
+      expect(() => expect(vol).toMatchVolume(vol, { timestamps: { changed: 'b.txt' } })).toThrow(
+        'Expected timestamps to change at `/b.txt`',
+      )
+    })
+
+    it('compares timestamps of rebuilt files with new contents', () => {
+      const vol = makeVol({ '/dist/main.js': 'v1', '/dist/util.js': 'u' })
+      const baseline = cloneVolume(vol)
+      // an incremental build only rewrites the outputs of changed sources
+      const time = new Date(Date.now() + 60_000)
+      vol.writeFileSync('/dist/main.js', 'v2')
+      vol.utimesSync('/dist/main.js', time, time)
+      expect(vol).toMatchVolume(baseline, {
+        timestamps: { unchanged: '**', changed: 'dist/main.js' },
+      })
+      expect(() =>
+        expect(vol).toMatchVolume(baseline, { timestamps: { changed: 'dist/*.js' } }),
+      ).toThrow('Expected timestamps to change at `/dist/util.js`')
+    })
   })
 })
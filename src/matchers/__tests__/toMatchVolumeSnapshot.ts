@@ -1,8 +1,28 @@
-import { describe, it, expect, vi, beforeAll, SnapshotUpdateState } from 'vitest'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  SnapshotUpdateState,
+} from 'vitest'
 import path from 'node:path'
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import { createHash } from 'node:crypto'
 import fsx from 'fs-extra'
+import { Volume } from 'memfs'
+import { fromJsonSnapshotSync } from 'memfs/lib/snapshot/index.js'
 import { makeTests, makeVol, pathToMap, VolumeInput } from '@test/util.js'
 import toMatchVolumeSnapshot, { VolumeSnapshotMatcherOptions } from '../toMatchVolumeSnapshot.js'
+import { finishSnapshotDirs, getNextSnapshotDirName, trackSnapshotDir } from '@/util/snapshot.js'
+import { removeUnusedBlobs } from '@/util/volume-manifest.js'
+import { readArchiveToMap } from '@/util/volume-archive.js'
+import { memfsSnapshotToVolume } from '@/util/memfs-snapshot.js'
+
+const execFileAsync = promisify(execFile)
 
 interface TestCase {
   name: string
@@ -61,6 +81,56 @@ const newCases = makeTests<TestCase>([
     options: { prefix: '/src' },
     pass: true,
   },
+  {
+    name: 'exclude option',
+    received: {
+      '/foo.txt': 'hi',
+      '/yarn.lock': 'lock',
+      '/.cache/data.json': '{}',
+      '/src/.DS_Store': 'noise',
+    },
+    options: { exclude: ['.cache', '*.lock', '**/.DS_Store'] },
+    pass: true,
+  },
+  {
+    name: 'metadata option',
+    received: () => {
+      const v = makeVol({ '/bin/cli.sh': 'echo hi', '/readme.txt': 'hi' })
+      v.chmodSync('/bin/cli.sh', 0o755)
+      return v
+    },
+    options: { metadata: true },
+    pass: true,
+  },
+  {
+    name: 'empty dir markers option',
+    received: { '/empty': null, '/logs/archive': null, '/foo.txt': 'hi' },
+    options: { emptyDirMarkers: true },
+    pass: true,
+  },
+  {
+    name: 'snap format',
+    received: () => {
+      const v = makeVol({
+        '/src/index.js': '// hi\n',
+        '/bin.dat': Buffer.from([0xde, 0xad, 0xbe, 0xef]),
+      })
+      v.symlinkSync('/src/index.js', '/link.js')
+      return v
+    },
+    options: { format: 'snap', exclude: 'link.js' },
+    pass: true,
+  },
+  {
+    name: 'normalize option',
+    received: () => {
+      const v = makeVol({ '/foo.txt': 'hi  \r\nthere\r\n' })
+      v.writeFileSync('/bin.dat', Buffer.from([0x0d, 0x0a, 0x00, 0xff]))
+      return v
+    },
+    options: { normalize: true },
+    pass: true,
+  },
 ])
 
 const fixtureCases = makeTests<TestCase>([
@@ -89,6 +159,34 @@ const fixtureCases = makeTests<TestCase>([
     expected: 'empty-dir',
     pass: true,
   },
+  {
+    name: 'empty dir marker match',
+    received: { '/empty': null, '/foo.txt': 'hi' },
+    expected: 'marker-dir',
+    options: { emptyDirMarkers: true },
+    pass: true,
+  },
+  {
+    name: 'empty dir marker mismatch',
+    received: { '/empty/foo.txt': 'hi', '/foo.txt': 'hi' },
+    expected: 'marker-dir',
+    options: { emptyDirMarkers: true },
+    pass: false,
+  },
+  {
+    name: 'reads empty dir markers as files by default',
+    received: { '/empty': null, '/foo.txt': 'hi' },
+    expected: 'marker-dir',
+    pass: false,
+  },
+  {
+    name: 'force update with empty dir markers',
+    received: { '/empty/bar.txt': 'hey', '/foo.txt': 'hi', '/logs': null },
+    expected: 'marker-dir',
+    options: { emptyDirMarkers: true },
+    update: 'all',
+    pass: true,
+  },
   {
     name: 'force update',
     received: { '/foo.txt': 'hi' },
@@ -96,6 +194,31 @@ const fixtureCases = makeTests<TestCase>([
     update: 'all',
     pass: true,
   },
+  {
+    name: 'force update only writes changes',
+    received: () => {
+      const v = makeVol({ '/foo.txt': 'hi', '/bar.txt': 'changed', '/sub/new.txt': 'new' })
+      v.symlinkSync('/target2.txt', '/link.txt')
+      return v
+    },
+    expected: 'foo-bar',
+    update: 'all',
+    pass: true,
+  },
+  {
+    name: 'force update with removed files',
+    received: { '/bar.txt': 'hey' },
+    expected: 'foo-bar',
+    update: 'all',
+    pass: true,
+  },
+  {
+    name: 'force update without changes',
+    received: { '/foo.txt': 'hi' },
+    expected: 'foo-dir',
+    update: 'all',
+    pass: true,
+  },
   {
     name: 'respects prefix option',
     received: { '/src/foo.txt': 'hi', '/bar.txt': 'ignore-me' },
@@ -190,6 +313,86 @@ const fixtureCases = makeTests<TestCase>([
     options: { contentMatch: 'ignore' },
     pass: true,
   },
+  {
+    name: 'respects include option',
+    received: { '/foo.txt': 'hi', '/bar.txt': 'hey', '/bar.log': 'ignore-me' },
+    expected: 'foo-bar',
+    options: { include: '*.txt', exclude: 'link.txt' },
+    pass: true,
+  },
+  {
+    name: 'respects metadata option',
+    received: () => {
+      const v = makeVol({ '/cli.sh': 'echo hi\n' })
+      v.chmodSync('/cli.sh', 0o755)
+      return v
+    },
+    expected: 'meta-dir',
+    options: { metadata: true },
+    pass: true,
+  },
+  {
+    name: 'respects metadata option (mismatch)',
+    received: { '/cli.sh': 'echo hi\n' },
+    expected: 'meta-dir',
+    options: { metadata: true },
+    pass: false,
+  },
+  {
+    name: 'reads metadata file as a file by default',
+    received: { '/cli.sh': 'echo hi\n' },
+    expected: 'meta-dir',
+    pass: false,
+  },
+  {
+    name: 'respects normalize option',
+    received: { '/foo.txt': 'hi\r\n', '/bar.txt': 'hey  ' },
+    expected: 'foo-bar',
+    options: { normalize: true, listMatch: 'ignore-missing' },
+    pass: true,
+  },
+])
+
+interface ObsoleteTestCase {
+  name: string
+  // snapshot dir => test name, as recorded in previous runs
+  index?: Record<string, string>
+  // snapshot dir => test name, as referenced in this run
+  referenced: Record<string, string>
+  // tests that didn't pass in this run
+  notPassed?: string[]
+  update?: SnapshotUpdateState
+}
+
+const obsoleteCases = makeTests<ObsoleteTestCase>([
+  {
+    name: 'records referenced dirs',
+    referenced: { 'foo-snap': 'foo' },
+  },
+  {
+    name: 'reports unreferenced dirs',
+    index: { 'foo-snap': 'foo', 'old-snap': 'removed test' },
+    referenced: { 'foo-snap': 'foo' },
+  },
+  {
+    name: 'removes unreferenced dirs when updating',
+    index: { 'foo-snap': 'foo', 'old-snap': 'removed test' },
+    referenced: { 'foo-snap': 'foo' },
+    update: 'all',
+  },
+  {
+    name: 'keeps dirs of skipped and failed tests',
+    index: { 'skipped-snap': 'group > skipped', 'failed-snap': 'failed' },
+    referenced: {},
+    notPassed: ['group > skipped', 'failed'],
+    update: 'all',
+  },
+  {
+    name: 'does not write the index on ci',
+    index: { 'old-snap': 'removed test' },
+    referenced: { 'foo-snap': 'foo' },
+    update: 'none',
+  },
 ])
 
 describe('toMatchVolumeSnapshot()', () => {
@@ -203,6 +406,7 @@ describe('toMatchVolumeSnapshot()', () => {
         updated: { increment: vi.fn() },
         matched: { increment: vi.fn() },
         unmatched: { increment: vi.fn() },
+        match: vi.fn(() => ({ pass: true })),
       },
       utils: {
         printReceived: (received: unknown) => `received(${JSON.stringify(received)})`,
@@ -226,7 +430,7 @@ describe('toMatchVolumeSnapshot()', () => {
           return e
         }
       }
-      const snapDir = path.join(path.dirname(state.snapshotState.snapshotPath), expDir)
+      const snapDir = path.join(__dirname, '__snapshots__', 'temp', 'xxx', expDir)
       await fsx.remove(snapDir)
       if (hasSnapshot) {
         const fixtureDir = path.join(__dirname, '__fixtures__', expDir)
@@ -235,6 +439,9 @@ describe('toMatchVolumeSnapshot()', () => {
       const result = await invoke()
       expect(result).toHaveProperty('pass', pass)
       expect(result).toMatchSnapshot('result')
+      if (options?.format === 'snap') {
+        expect(state.snapshotState.match.mock.calls).toMatchSnapshot('snap-match')
+      }
       if (!hasSnapshot || update === 'all') {
         const snapDirMap = await pathToMap(snapDir).catch((e) => `${e.name}: ${e.code}`)
         expect(snapDirMap).toMatchSnapshot('disk-snapshot')
@@ -264,6 +471,651 @@ describe('toMatchVolumeSnapshot()', () => {
     it.each(fixtureCases.normal)('$name [fixture]', testRunnerFixture)
     it.only.each(fixtureCases.only)('$name [fixture]', testRunnerFixture)
     it.skip.each(fixtureCases.skip)('$name [fixture]', testRunnerFixture)
+
+    describe('snapshot dir names', () => {
+      it('does not use up names on failed calls', async () => {
+        const state = mockState('new')
+        const matcher = toMatchVolumeSnapshot.bind(state as any)
+        const options = { format: 'memfs-json', metadata: true } as const
+        await expect(matcher(makeVol({ '/foo.txt': 'hi' }), undefined, options)).rejects.toThrow(
+          TypeError,
+        )
+        const snapshotState = state.snapshotState as any
+        expect(getNextSnapshotDirName(snapshotState, 'test')).toBe('test-1')
+        expect(getNextSnapshotDirName(snapshotState, state.currentTestName!)).toMatch(/-1$/)
+      })
+
+      it('keeps tests with similar names apart', () => {
+        const snapshotState = mockState('new').snapshotState as any
+        expect(getNextSnapshotDirName(snapshotState, 'a b')).toMatch(/^a-b-[0-9a-f]{8}-1$/)
+        expect(getNextSnapshotDirName(snapshotState, 'a/b')).toMatch(/^a-b-[0-9a-f]{8}-1$/)
+        expect(getNextSnapshotDirName(snapshotState, 'a b')).not.toBe(
+          getNextSnapshotDirName(snapshotState, 'a/b'),
+        )
+        expect(getNextSnapshotDirName(snapshotState, '***')).toMatch(/^snapshot-[0-9a-f]{8}-1$/)
+      })
+    })
+
+    describe('legacy snapshot dirs', () => {
+      const legacyDir = path.join(__dirname, '__snapshots__', 'temp', 'foo-dir')
+      const snapDir = path.join(__dirname, '__snapshots__', 'temp', 'xxx', 'foo-dir')
+      const runLegacyTest = async (update: SnapshotUpdateState) => {
+        await Promise.all([fsx.remove(legacyDir), fsx.remove(snapDir)])
+        await fsx.copy(path.join(__dirname, '__fixtures__', 'foo-dir'), legacyDir)
+        try {
+          const matcher = toMatchVolumeSnapshot.bind(mockState(update) as any)
+          const result = await matcher(makeVol({ '/foo.txt': 'hi' }), 'foo-dir')
+          const exists = [await fsx.pathExists(legacyDir), await fsx.pathExists(snapDir)]
+          return { pass: result.pass, exists }
+        } finally {
+          await Promise.all([fsx.remove(legacyDir), fsx.remove(snapDir)])
+        }
+      }
+
+      it('moves them into the test file dir when updating', async () => {
+        expect(await runLegacyTest('all')).toEqual({ pass: true, exists: [false, true] })
+      })
+
+      it('reads them in place otherwise', async () => {
+        expect(await runLegacyTest('new')).toEqual({ pass: true, exists: [true, false] })
+        expect(await runLegacyTest('none')).toEqual({ pass: true, exists: [true, false] })
+      })
+
+      it('throws when other test files may use them', async () => {
+        const otherSnapPath = path.join(path.dirname(legacyDir), 'yyy.snap')
+        await fsx.outputFile(otherSnapPath, '')
+        try {
+          await expect(runLegacyTest('all')).rejects.toThrow(
+            /Snapshot directory `foo-dir` found at .*, where other test files may use it too/,
+          )
+        } finally {
+          await fsx.remove(otherSnapPath)
+        }
+      })
+    })
+
+    it('uses snap format names as keys only', async () => {
+      const state = mockState('new')
+      const matcher = toMatchVolumeSnapshot.bind(state as any)
+      const result = await matcher(makeVol({ '/foo.txt': 'hi' }), '../snap', { format: 'snap' })
+      expect(result).toHaveProperty('pass', true)
+      expect(state.snapshotState.match).toHaveBeenCalledOnce()
+    })
+
+    it('throws when using the snap format with the metadata option', async () => {
+      const matcher = toMatchVolumeSnapshot.bind(mockState('new') as any)
+      await expect(
+        matcher(makeVol({ '/foo.txt': 'hi' }), 'snap', { format: 'snap', metadata: true }),
+      ).rejects.toThrow(/`metadata` option .* is not supported by the `snap` format/)
+    })
+
+    it('writes external snapshot dirs when allowed', async () => {
+      const matcher = toMatchVolumeSnapshot.bind(mockState('new') as any)
+      const snapDir = path.join(__dirname, '__snapshots__', 'temp', 'external')
+      await fsx.remove(snapDir)
+      const vol = makeVol({ '/foo.txt': 'hi' })
+      const result = await matcher(vol, '../external', { allowExternalPath: true })
+      expect(result).toHaveProperty('pass', true)
+      expect(await pathToMap(snapDir)).toHaveProperty('/foo.txt')
+      await fsx.remove(snapDir)
+    })
+
+    it('throws when an external snapshot dir contains the snapshot folder', async () => {
+      const matcher = toMatchVolumeSnapshot.bind(mockState('new') as any)
+      const vol = makeVol({ '/foo.txt': 'hi' })
+      await expect(matcher(vol, '..', { allowExternalPath: true })).rejects.toThrow(
+        /must not contain the snapshot folder, got `\.\.`/,
+      )
+      await expect(matcher(vol, '/', { allowExternalPath: true })).rejects.toThrow(
+        /must not contain the snapshot folder/,
+      )
+    })
+
+    describe('snapshot writes', () => {
+      const snapDir = path.join(__dirname, '__snapshots__', 'temp', 'xxx', 'atomic')
+      const listSnapshotsDir = () => fsx.readdir(path.dirname(snapDir))
+
+      beforeEach(async () => {
+        await fsx.remove(path.dirname(snapDir))
+        await fsx.outputFile(path.join(snapDir, 'foo.txt'), 'old')
+      })
+
+      afterEach(async () => {
+        await fsx.remove(path.dirname(snapDir))
+      })
+
+      it('keeps the old snapshot when writing fails', async () => {
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const vol = makeVol({ '/foo.txt': 'new', '/bar.txt': 'new' })
+        const normalize = {
+          transform: {
+            'bar.txt': () => {
+              throw new Error('transform failed')
+            },
+          },
+        }
+        await expect(matcher(vol, 'atomic', { normalize })).rejects.toThrow('transform failed')
+        expect(await pathToMap(snapDir)).toEqual({ '/foo.txt': ['file', 'b2xk'] })
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('keeps the old snapshot when an update fails halfway', async () => {
+        await fsx.outputFile(path.join(snapDir, 'sub', 'bar.txt'), 'old')
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        // the long name fails to write after the other files are staged
+        const vol = makeVol({ '/foo.txt': 'new', '/baz.txt': 'new', [`/${'x'.repeat(300)}`]: '' })
+        await expect(matcher(vol, 'atomic')).rejects.toThrow(/ENAMETOOLONG/)
+        expect(await pathToMap(snapDir)).toEqual({
+          '/foo.txt': ['file', 'b2xk'],
+          '/sub/bar.txt': ['file', 'b2xk'],
+        })
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('leaves identical files untouched', async () => {
+        await fsx.outputFile(path.join(snapDir, 'sub', 'bar.txt'), 'old')
+        const before = await fsx.stat(path.join(snapDir, 'foo.txt'))
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const vol = makeVol({ '/foo.txt': 'old', '/baz.txt': 'new' })
+        const result = await matcher(vol, 'atomic')
+        expect(result.message()).toBe('Updated snapshot at atomic (1 added, 0 updated, 1 removed)')
+        const after = await fsx.stat(path.join(snapDir, 'foo.txt'))
+        expect([after.ino, after.mtimeMs]).toEqual([before.ino, before.mtimeMs])
+        expect(await fsx.readdir(snapDir)).toEqual(['baz.txt', 'foo.txt'])
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('counts metadata changes as updates', async () => {
+        const vol = makeVol({ '/foo.txt': 'old', '/bar.txt': 'old' })
+        const match = (update: SnapshotUpdateState) =>
+          toMatchVolumeSnapshot.bind(mockState(update) as any)(vol, 'atomic', { metadata: true })
+        await fsx.remove(snapDir)
+        await match('new')
+        vol.chmodSync('/foo.txt', 0o755)
+        expect(await match('none')).toHaveProperty('pass', false)
+        expect((await match('all')).message()).toBe(
+          'Updated snapshot at atomic (0 added, 1 updated, 0 removed)',
+        )
+        expect(await match('none')).toHaveProperty('pass', true)
+        expect((await match('all')).message()).toBe('Volume matched the snapshot at atomic')
+      })
+
+      it('replaces entries that changed kind', async () => {
+        await fsx.outputFile(path.join(snapDir, 'sub', 'bar.txt'), 'old')
+        await fsx.outputFile(path.join(snapDir, 'qux'), 'old')
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const vol = makeVol({ '/foo.txt': 'old', '/sub': 'new', '/qux/bar.txt': 'new' })
+        const result = await matcher(vol, 'atomic')
+        expect(result.message()).toBe('Updated snapshot at atomic (2 added, 0 updated, 2 removed)')
+        expect(await pathToMap(snapDir)).toEqual({
+          '/foo.txt': ['file', 'b2xk'],
+          '/qux/bar.txt': ['file', 'bmV3'],
+          '/sub': ['file', 'bmV3'],
+        })
+      })
+
+      it('keeps files named like the metadata file and markers', async () => {
+        const vol = makeVol({ '/.volume-meta.json': '{}', '/sub/.volume-keep': 'hi' })
+        const match = (update: SnapshotUpdateState) =>
+          toMatchVolumeSnapshot.bind(mockState(update) as any)(vol, 'atomic')
+        await fsx.remove(snapDir)
+        expect((await match('new')).message()).toBe('Created snapshot at atomic')
+        expect(await match('none')).toHaveProperty('pass', true)
+        await fsx.outputFile(path.join(snapDir, 'foo.txt'), 'old')
+        expect((await match('all')).message()).toBe(
+          'Updated snapshot at atomic (0 added, 0 updated, 1 removed)',
+        )
+        expect(await pathToMap(snapDir)).toEqual({
+          '/.volume-meta.json': ['file', 'e30='],
+          '/sub/.volume-keep': ['file', 'aGk='],
+        })
+      })
+
+      it('serializes concurrent updates', async () => {
+        const update = (content: string) => {
+          const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+          return matcher(makeVol({ [`/${content}.txt`]: content }), 'atomic')
+        }
+        const results = await Promise.all(['foo', 'bar', 'baz'].map(update))
+        expect(results.every((result) => result.pass)).toBe(true)
+        expect(Object.keys(await pathToMap(snapDir))).toHaveLength(1)
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('takes over stale locks', async () => {
+        // no process can have this id
+        await fsx.outputFile(path.join(path.dirname(snapDir), '.atomic.lock'), '2147483647')
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const result = await matcher(makeVol({ '/foo.txt': 'new' }), 'atomic')
+        expect(result).toHaveProperty('pass', true)
+        expect(await pathToMap(snapDir)).toEqual({ '/foo.txt': ['file', 'bmV3'] })
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('takes over stale locks once', async () => {
+        await fsx.outputFile(path.join(path.dirname(snapDir), '.atomic.lock'), '2147483647')
+        const update = (content: string) => {
+          const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+          return matcher(makeVol({ [`/${content}.txt`]: content }), 'atomic')
+        }
+        const results = await Promise.all(['foo', 'bar', 'baz'].map(update))
+        expect(results.every((result) => result.pass)).toBe(true)
+        expect(Object.keys(await pathToMap(snapDir))).toHaveLength(1)
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('removes staging directories left behind', async () => {
+        await fsx.outputFile(path.join(path.dirname(snapDir), '.atomic.tmp-1-abcd', 'foo.txt'), '')
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const result = await matcher(makeVol({ '/foo.txt': 'new' }), 'atomic')
+        expect(result).toHaveProperty('pass', true)
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('takes over stale locks left by a crashed takeover', async () => {
+        const lockPath = path.join(path.dirname(snapDir), '.atomic.lock')
+        const ownerHash = createHash('sha1').update('2147483647').digest('hex').slice(0, 8)
+        await fsx.outputFile(lockPath, '2147483647')
+        await fsx.outputFile(`${lockPath}.takeover-${ownerHash}`, '2147483647-abcd1234')
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const result = await matcher(makeVol({ '/foo.txt': 'new' }), 'atomic')
+        expect(result).toHaveProperty('pass', true)
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('restores snapshots moved away by an interrupted update', async () => {
+        await fsx.move(snapDir, path.join(path.dirname(snapDir), '.atomic.old-1-abcd1234'))
+        await fsx.outputFile(path.join(path.dirname(snapDir), '.atomic.old-2-abcd1234', 'x'), '')
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const result = await matcher(makeVol({ '/foo.txt': 'old' }), 'atomic')
+        expect(result).toHaveProperty('pass', true)
+        expect(await pathToMap(snapDir)).toEqual({ '/foo.txt': ['file', 'b2xk'] })
+        expect(await listSnapshotsDir()).toEqual(['atomic'])
+      })
+
+      it('removes temporary files left inside snapshots', async () => {
+        await fsx.outputFile(path.join(snapDir, '.foo.txt.tmp-1-abcd1234'), 'new')
+        await fsx.outputFile(path.join(snapDir, 'sub', '.bar.txt.tmp-1-abcd1234'), 'new')
+        await fsx.outputFile(path.join(snapDir, 'sub', 'bar.txt'), 'old')
+        const matcher = toMatchVolumeSnapshot.bind(mockState('all') as any)
+        const result = await matcher(
+          makeVol({ '/foo.txt': 'old', '/sub/bar.txt': 'old' }),
+          'atomic',
+        )
+        expect(result.message()).toBe('Volume matched the snapshot at atomic')
+        expect(await pathToMap(snapDir)).toEqual({
+          '/foo.txt': ['file', 'b2xk'],
+          '/sub/bar.txt': ['file', 'b2xk'],
+        })
+      })
+    })
+
+    describe('manifest format', () => {
+      const snapshotsDir = path.join(__dirname, '__snapshots__', 'temp', 'xxx')
+      const blobsDir = path.join(snapshotsDir, '.blobs')
+      const manifestDirs = ['manifest-a', 'manifest-b', 'manifest-c', '../manifest-external']
+      const match = (
+        received: VolumeInput,
+        snapshotDir: string,
+        update: SnapshotUpdateState,
+        options?: VolumeSnapshotMatcherOptions,
+      ) => {
+        const matcher = toMatchVolumeSnapshot.bind(mockState(update) as any)
+        return matcher(makeVol(received), snapshotDir, { format: 'manifest', ...options })
+      }
+      const cleanup = () =>
+        Promise.all(
+          [blobsDir, ...manifestDirs].map((dir) => fsx.remove(path.resolve(snapshotsDir, dir))),
+        )
+
+      beforeEach(cleanup)
+      afterEach(cleanup)
+
+      it('writes a manifest of all entries', async () => {
+        const vol = () => {
+          const v = makeVol({ '/bin/cli.sh': 'echo hi', '/logs': null })
+          v.chmodSync('/bin/cli.sh', 0o755)
+          v.symlinkSync('/bin/cli.sh', '/cli')
+          return v
+        }
+        const result = await match(vol, 'manifest-a', 'new', { metadata: true })
+        expect(result.message()).toBe('Created snapshot at manifest-a')
+        const manifest = await fsx.readJson(path.join(snapshotsDir, 'manifest-a', 'manifest.json'))
+        expect(manifest).toMatchSnapshot('manifest')
+        expect(await fsx.readdir(blobsDir)).toEqual([manifest.entries[0].hash])
+        expect(await match(vol, 'manifest-a', 'none', { metadata: true })).toHaveProperty(
+          'pass',
+          true,
+        )
+      })
+
+      it('stores identical files once', async () => {
+        await match({ '/foo.txt': 'hi', '/bar.txt': 'hi' }, 'manifest-a', 'new')
+        await match({ '/baz.txt': 'hi' }, 'manifest-b', 'new')
+        expect(await fsx.readdir(blobsDir)).toHaveLength(1)
+      })
+
+      it('reports content mismatches', async () => {
+        await match({ '/foo.txt': 'hi' }, 'manifest-a', 'new')
+        const result = await match({ '/foo.txt': 'hey' }, 'manifest-a', 'none')
+        expect(result).toHaveProperty('pass', false)
+        expect(result.message()).toMatchSnapshot('message')
+      })
+
+      it('stores large files as hash only', async () => {
+        const options = { maxBlobSize: 4 }
+        await match({ '/foo.txt': 'hi', '/bar.txt': 'hello' }, 'manifest-a', 'new', options)
+        expect(await fsx.readdir(blobsDir)).toHaveLength(1)
+        const matches = async (received: VolumeInput) =>
+          (await match(received, 'manifest-a', 'none', options)).pass
+        expect(await matches({ '/foo.txt': 'hi', '/bar.txt': 'hello' })).toBe(true)
+        expect(await matches({ '/foo.txt': 'hi', '/bar.txt': 'hallo' })).toBe(false)
+      })
+
+      it('leaves unchanged manifests untouched when updating', async () => {
+        await match({ '/foo.txt': 'hi' }, 'manifest-a', 'new')
+        const result = await match({ '/foo.txt': 'hi' }, 'manifest-a', 'all')
+        expect(result.message()).toBe('Volume matched the snapshot at manifest-a')
+        const updated = await match({ '/foo.txt': 'hey' }, 'manifest-a', 'all')
+        expect(updated.message()).toBe('Updated snapshot at manifest-a')
+      })
+
+      it('removes unused blobs', async () => {
+        await match({ '/foo.txt': 'hi' }, 'manifest-a', 'new')
+        await match({ '/foo.txt': 'hi', '/bar.txt': 'hey' }, 'manifest-b', 'new')
+        await match({ '/foo.txt': 'hi' }, 'manifest-b', 'all')
+        expect(await fsx.readdir(blobsDir)).toHaveLength(2)
+        await removeUnusedBlobs(snapshotsDir, blobsDir)
+        expect(await fsx.readdir(blobsDir)).toHaveLength(1)
+        await Promise.all(manifestDirs.map((dir) => fsx.remove(path.join(snapshotsDir, dir))))
+        await removeUnusedBlobs(snapshotsDir, blobsDir)
+        expect(await fsx.pathExists(blobsDir)).toBe(false)
+      })
+
+      it('removes unused blobs of external manifests when updating', async () => {
+        const externalDir = path.resolve(snapshotsDir, '../manifest-external')
+        const options = { allowExternalPath: true }
+        await match({ '/foo.txt': 'hi', '/bar.txt': 'hey' }, '../manifest-external', 'new', options)
+        expect(await fsx.readdir(path.join(externalDir, '.blobs'))).toHaveLength(2)
+        await match({ '/foo.txt': 'hi' }, '../manifest-external', 'all', options)
+        expect(await fsx.readdir(path.join(externalDir, '.blobs'))).toHaveLength(1)
+        expect(await fsx.pathExists(blobsDir)).toBe(false)
+      })
+
+      it('ignores files named like a manifest that are not one', async () => {
+        await match({ '/foo.txt': 'hi' }, 'manifest-a', 'new')
+        await match({ '/manifest.json': '{ "name": "app" }' }, 'manifest-b', 'new', {
+          format: 'dir',
+        })
+        await fsx.outputFile(path.join(snapshotsDir, 'manifest-c', 'manifest.json'), 'not json')
+        await removeUnusedBlobs(snapshotsDir, blobsDir)
+        expect(await fsx.readdir(blobsDir)).toHaveLength(1)
+      })
+
+      it('throws when comparing owners', async () => {
+        await expect(
+          match({ '/foo.txt': 'hi' }, 'manifest-a', 'new', { metadata: { mode: true, uid: true } }),
+        ).rejects.toThrow(/`uid` and `gid` metadata .* are not supported by the `manifest` format/)
+      })
+    })
+
+    describe('archive formats', () => {
+      const snapshotsDir = path.join(__dirname, '__snapshots__', 'temp', 'xxx')
+      const archives = ['archive.tar', 'archive.tar.gz']
+      const match = (
+        received: VolumeInput,
+        update: SnapshotUpdateState,
+        options?: VolumeSnapshotMatcherOptions,
+      ) => {
+        const matcher = toMatchVolumeSnapshot.bind(mockState(update) as any)
+        return matcher(makeVol(received), 'archive', { format: 'tar.gz', ...options })
+      }
+      const cleanup = () =>
+        Promise.all(archives.map((archive) => fsx.remove(path.join(snapshotsDir, archive))))
+
+      beforeEach(cleanup)
+      afterEach(cleanup)
+
+      it('writes a single archive', async () => {
+        const vol = () => {
+          const v = makeVol({ '/bin/cli.sh': 'echo hi', '/logs': null })
+          v.chmodSync('/bin/cli.sh', 0o755)
+          v.symlinkSync('/bin/cli.sh', '/cli')
+          return v
+        }
+        const result = await match(vol, 'new')
+        expect(result.message()).toBe('Created snapshot at archive.tar.gz')
+        const archive = await fsx.readFile(path.join(snapshotsDir, 'archive.tar.gz'))
+        expect(archive.subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]))
+        const map = await readArchiveToMap(path.join(snapshotsDir, 'archive.tar.gz'), {
+          withMeta: true,
+        })
+        expect(map).toMatchSnapshot('archive-map')
+        expect(await match(vol, 'none', { metadata: true })).toHaveProperty('pass', true)
+      })
+
+      it('writes uncompressed archives', async () => {
+        await match({ '/foo.txt': 'hi' }, 'new', { format: 'tar' })
+        const archive = await fsx.readFile(path.join(snapshotsDir, 'archive.tar'))
+        expect(archive.toString('latin1', 257, 262)).toBe('ustar')
+        expect(await match({ '/foo.txt': 'hi' }, 'none', { format: 'tar' })).toHaveProperty(
+          'pass',
+          true,
+        )
+      })
+
+      it('keeps long paths', async () => {
+        const longPath = `/${'nested-dir/'.repeat(12)}file.txt`
+        await match({ [longPath]: 'hi' }, 'new')
+        expect(await match({ [longPath]: 'hi' }, 'none')).toHaveProperty('pass', true)
+      })
+
+      it('reports mismatches', async () => {
+        await match({ '/foo.txt': 'hi', '/empty': null }, 'new')
+        const result = await match({ '/foo.txt': 'hey' }, 'none', { report: 'all' })
+        expect(result).toHaveProperty('pass', false)
+        expect(result.message()).toMatchSnapshot('message')
+      })
+
+      it('leaves unchanged archives untouched when updating', async () => {
+        await match({ '/foo.txt': 'hi' }, 'new')
+        const before = await fsx.stat(path.join(snapshotsDir, 'archive.tar.gz'))
+        const result = await match({ '/foo.txt': 'hi' }, 'all')
+        expect(result.message()).toBe('Volume matched the snapshot at archive.tar.gz')
+        const after = await fsx.stat(path.join(snapshotsDir, 'archive.tar.gz'))
+        expect(after.ino).toBe(before.ino)
+        const updated = await match({ '/foo.txt': 'hey' }, 'all')
+        expect(updated.message()).toBe('Updated snapshot at archive.tar.gz')
+      })
+
+      it('fails when the archive is missing on ci', async () => {
+        const result = await match({ '/foo.txt': 'hi' }, 'none')
+        expect(result).toHaveProperty('pass', false)
+        expect(result.message()).toBe('Snapshot archive `archive.tar.gz` does not exist')
+      })
+    })
+
+    describe('memfs formats', () => {
+      const snapshotsDir = path.join(__dirname, '__snapshots__', 'temp', 'xxx')
+      const files = ['memfs.json', 'memfs.cbor']
+      const match = (
+        received: VolumeInput,
+        update: SnapshotUpdateState,
+        options?: VolumeSnapshotMatcherOptions,
+      ) => {
+        const matcher = toMatchVolumeSnapshot.bind(mockState(update) as any)
+        return matcher(makeVol(received), 'memfs', { format: 'memfs-json', ...options })
+      }
+      const cleanup = () =>
+        Promise.all(files.map((file) => fsx.remove(path.join(snapshotsDir, file))))
+
+      beforeEach(cleanup)
+      afterEach(cleanup)
+
+      it.each(['json', 'cbor'] as const)('writes a memfs snapshot (%s)', async (encoding) => {
+        const format = `memfs-${encoding}` as const
+        const vol = () => {
+          const v = makeVol({ '/src/index.js': 'export {}', '/logs': null })
+          v.symlinkSync('/src/index.js', '/index.js')
+          return v
+        }
+        const result = await match(vol, 'new', { format })
+        expect(result.message()).toBe(`Created snapshot at memfs.${encoding}`)
+        const snapshot = await fsx.readFile(path.join(snapshotsDir, `memfs.${encoding}`))
+        expect(memfsSnapshotToVolume(snapshot)).toMatchVolume(vol())
+        expect(await match(vol, 'none', { format })).toHaveProperty('pass', true)
+      })
+
+      it('writes snapshots readable by memfs', async () => {
+        await match({ '/foo.txt': 'hi', '/empty': null }, 'new')
+        const snapshot = await fsx.readFile(path.join(snapshotsDir, 'memfs.json'))
+        const vol = new Volume()
+        fromJsonSnapshotSync(snapshot as any, { fs: vol as any, path: '/out' })
+        expect(vol.toJSON()).toEqual({ '/out/foo.txt': 'hi', '/out/empty': null })
+      })
+
+      it('reports mismatches', async () => {
+        await match({ '/foo.txt': 'hi' }, 'new', { format: 'memfs-cbor' })
+        const result = await match({ '/foo.txt': 'hey' }, 'none', { format: 'memfs-cbor' })
+        expect(result).toHaveProperty('pass', false)
+        expect(result.message()).toMatchSnapshot('message')
+      })
+
+      it('leaves unchanged snapshots untouched when updating', async () => {
+        await match({ '/foo.txt': 'hi' }, 'new')
+        const before = await fsx.stat(path.join(snapshotsDir, 'memfs.json'))
+        const result = await match({ '/foo.txt': 'hi' }, 'all')
+        expect(result.message()).toBe('Volume matched the snapshot at memfs.json')
+        const after = await fsx.stat(path.join(snapshotsDir, 'memfs.json'))
+        expect(after.ino).toBe(before.ino)
+      })
+
+      it('fails when the snapshot is missing on ci', async () => {
+        const result = await match({ '/foo.txt': 'hi' }, 'none')
+        expect(result).toHaveProperty('pass', false)
+        expect(result.message()).toBe('Snapshot file `memfs.json` does not exist')
+      })
+
+      it('throws when used with the metadata option', async () => {
+        await expect(match({ '/foo.txt': 'hi' }, 'new', { metadata: true })).rejects.toThrow(
+          /`metadata` option .* is not supported by the `memfs-json` format/,
+        )
+      })
+    })
+
+    it('throws when two tests use the same snapshot dir', async () => {
+      const state = mockState('new')
+      const matcher = toMatchVolumeSnapshot.bind(state as any)
+      const snapDir = path.join(__dirname, '__snapshots__', 'temp', 'xxx', 'shared')
+      await matcher(makeVol({ '/foo.txt': 'hi' }), 'shared')
+      state.currentTestName = 'other test'
+      await expect(matcher(makeVol({ '/foo.txt': 'hi' }), 'shared')).rejects.toThrow(
+        /Snapshot directory `shared` is already used by test `.+ > throws when two tests/,
+      )
+      await fsx.remove(snapDir)
+    })
+  })
+
+  describe('obsolete snapshot dirs', () => {
+    const snapshotsDir = path.join(__dirname, '__snapshots__', 'temp-obsolete')
+
+    async function testRunnerObsolete({ index, referenced, notPassed, update }: ObsoleteTestCase) {
+      const snapshotState = {
+        _updateSnapshot: update ?? 'new',
+        _uncheckedKeys: new Set<string>(),
+        snapshotPath: path.join(snapshotsDir, 'xxx.snap'),
+      }
+      const file = {
+        tasks: Object.values({ ...index, ...referenced }).map((testName) => {
+          const [name, ...parents] = testName.split(' > ').reverse()
+          const test: object = {
+            type: 'test',
+            name,
+            result: { state: notPassed?.includes(testName) ? 'fail' : 'pass' },
+          }
+          return parents.reduce(
+            (task, parent) => ({ type: 'suite', name: parent, tasks: [task] }),
+            test,
+          )
+        }),
+      }
+
+      await fsx.remove(snapshotsDir)
+      for (const snapshotDir of Object.keys(index ?? {})) {
+        await fsx.outputFile(path.join(snapshotsDir, 'xxx', snapshotDir, 'foo.txt'), 'hi')
+      }
+      if (index) {
+        await fsx.outputJson(path.join(snapshotsDir, 'xxx.volumes.json'), index)
+      }
+      for (const [snapshotDir, testName] of Object.entries(referenced)) {
+        trackSnapshotDir(snapshotState as any, snapshotDir, testName)
+      }
+
+      await finishSnapshotDirs(snapshotState as any, file as any)
+      expect(Array.from(snapshotState._uncheckedKeys)).toMatchSnapshot('unchecked-keys')
+      expect(await pathToMap(snapshotsDir)).toMatchSnapshot('disk-snapshot')
+      await fsx.remove(snapshotsDir)
+    }
+
+    it.each(obsoleteCases.normal)('$name', testRunnerObsolete)
+    it.only.each(obsoleteCases.only)('$name', testRunnerObsolete)
+    it.skip.each(obsoleteCases.skip)('$name', testRunnerObsolete)
+
+    it('reports obsolete dirs next to skipped tests', { timeout: 60_000 }, async () => {
+      const srcDir = path.resolve(__dirname, '../..')
+      // inside the repo, so the temp test file resolves `vitest` and `memfs`
+      const tempDir = await fsx.mkdtemp(path.join(__dirname, '.temp-obsolete-'))
+      const runVitest = (...args: string[]) =>
+        execFileAsync(
+          process.execPath,
+          [
+            path.resolve('node_modules/vitest/vitest.mjs'),
+            'run',
+            '--config',
+            'vitest.config.mjs',
+            ...args,
+          ],
+          { cwd: tempDir, env: { ...process.env, CI: 'true', NO_COLOR: '1' } },
+        )
+      const testFile = (snapshotDirs: string[]) => `import { describe, it, expect } from 'vitest'
+import { Volume } from 'memfs'
+
+describe('group', () => {
+${snapshotDirs
+  .map(
+    (dir) => `  it('${dir}', async () => {
+    await expect(Volume.fromJSON({ '/foo.txt': 'hi' })).toMatchVolumeSnapshot('${dir}')
+  })`,
+  )
+  .join('\n')}
+  it.skip('skipped', () => {})
+})
+`
+      try {
+        await fsx.writeFile(
+          path.join(tempDir, 'vitest.config.mjs'),
+          `export default {
+            test: { include: ['*.test.ts'], setupFiles: [${JSON.stringify(`${srcDir}/setup.ts`)}] },
+            resolve: { alias: { '@': ${JSON.stringify(srcDir)} } },
+          }\n`,
+        )
+        const filePath = path.join(tempDir, 'obsolete.test.ts')
+        const snapshotsDir = path.join(tempDir, '__snapshots__', 'obsolete.test.ts')
+        await fsx.writeFile(filePath, testFile(['foo-snap', 'bar-snap']))
+        await runVitest('-u')
+        expect(await fsx.readdir(snapshotsDir)).toEqual(['bar-snap', 'foo-snap'])
+
+        await fsx.writeFile(filePath, testFile(['foo-snap']))
+        const { stdout } = await runVitest()
+        expect(stdout).toMatch(/1 obsolete/)
+        expect(stdout).toContain('group › bar-snap › volume snapshot `bar-snap`')
+        const updated = await runVitest('-u')
+        expect(updated.stdout).toMatch(/1 removed/)
+        expect(await fsx.readdir(snapshotsDir)).toEqual(['foo-snap'])
+      } finally {
+        await fsx.remove(tempDir)
+      }
+    })
   })
 
   describe('integration', () => {
@@ -276,13 +1128,79 @@ describe('toMatchVolumeSnapshot()', () => {
       await expect(vol).toMatchVolumeSnapshot('test')
     })
 
-    it('throws when used without snapshot name', async () => {
+    it('works with snap format', async () => {
+      const vol = makeVol({
+        '/foo.txt': 'hi\nthere\n',
+        '/bin/data.bin': Buffer.alloc(100_000, 0xbb),
+        '/logs': null,
+      })
+      vol.symlinkSync('/foo.txt', '/bin/foo-link.txt')
+      await expect(vol).toMatchVolumeSnapshot('test', { format: 'snap' })
+    })
+
+    it('works with manifest format', async () => {
+      const vol = makeVol({
+        '/foo.txt': 'hi',
+        '/bar.txt': 'hi',
+        '/bin/data.bin': Buffer.alloc(100_000, 0xbb),
+        '/logs': null,
+      })
+      vol.symlinkSync('/foo.txt', '/bin/foo-link.txt')
+      await expect(vol).toMatchVolumeSnapshot('test-manifest', { format: 'manifest' })
+    })
+
+    it('works with tar.gz format', async () => {
+      const vol = makeVol({
+        '/foo.txt': 'hi',
+        '/bin/data.bin': Buffer.alloc(100_000, 0xbb),
+        '/logs': null,
+      })
+      vol.symlinkSync('/foo.txt', '/bin/foo-link.txt')
+      await expect(vol).toMatchVolumeSnapshot('test-archive', { format: 'tar.gz' })
+    })
+
+    it('works with memfs-json format', async () => {
+      const vol = makeVol({
+        '/foo.txt': 'hi',
+        '/bin/data.bin': Buffer.alloc(100, 0xbb),
+        '/logs': null,
+      })
+      vol.symlinkSync('/foo.txt', '/bin/foo-link.txt')
+      await expect(vol).toMatchVolumeSnapshot('test-memfs', { format: 'memfs-json' })
+    })
+
+    it('names snapshot dirs after the test', async () => {
+      await expect(makeVol({ '/foo.txt': 'hi' })).toMatchVolumeSnapshot()
+      await expect(makeVol({ '/src/bar.txt': 'hey' })).toMatchVolumeSnapshot({ prefix: '/src' })
+
+      const snapshotsDir = path.join(__dirname, '__snapshots__', 'toMatchVolumeSnapshot.ts')
+      const snapshotDir =
+        'toMatchVolumeSnapshot-integration-names-snapshot-dirs-after-the-test-2c15647f'
+      expect(await pathToMap(path.join(snapshotsDir, `${snapshotDir}-1`))).toHaveProperty(
+        '/foo.txt',
+      )
+      expect(await pathToMap(path.join(snapshotsDir, `${snapshotDir}-2`))).toHaveProperty(
+        '/bar.txt',
+      )
+    })
+
+    it('throws when used with an invalid snapshot name', async () => {
       const vol = makeVol({ '/foo.txt': 'hi' })
       await expect(
-        () => expect(vol).toMatchVolumeSnapshot(null), //
-      ).rejects.toThrow(/must provide a snapshot directory name/)
+        () => expect(vol).toMatchVolumeSnapshot(''), //
+      ).rejects.toThrow(/must be a non-empty string/)
     })
 
+    it.each(['../test', '../../..', '.', '/tmp/test'])(
+      'throws when the snapshot dir is outside the snapshot folder (%s)',
+      async (snapshotDir) => {
+        const vol = makeVol({ '/foo.txt': 'hi' })
+        await expect(
+          () => expect(vol).toMatchVolumeSnapshot(snapshotDir), //
+        ).rejects.toThrow(/must be a relative path inside the snapshot folder/)
+      },
+    )
+
     it('throws when used with not', async () => {
       const vol = makeVol({ '/foo.txt': 'hi' })
       await expect(
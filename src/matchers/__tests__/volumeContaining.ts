@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest'
+import { makeVol } from '@test/util.js'
+
+describe('expect.volumeContaining()', () => {
+  const vol = makeVol({ '/src/index.js': 'export {}', '/src/util.js': '', '/logs': null })
+
+  it('matches volumes containing the expected entries', () => {
+    expect(vol).toEqual(expect.volumeContaining(['/src/index.js', '/logs']))
+    expect(vol).toEqual(expect.volumeContaining({ '/src': 'dir', '/src/*.js': 'file' }))
+    expect(vol).toEqual(expect.volumeContaining(['index.js'], { prefix: '/src' }))
+    expect(vol).not.toEqual(expect.volumeContaining(['/src/missing.js']))
+    expect(vol).not.toEqual(expect.volumeContaining({ '/logs': 'file' }))
+  })
+
+  it('matches volumes nested in other values', () => {
+    const callback = vi.fn()
+    callback({ fs: vol, cwd: '/src' })
+    expect(callback).toHaveBeenCalledWith({
+      fs: expect.volumeContaining(['/src/index.js']),
+      cwd: '/src',
+    })
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ fs: expect.volumeContaining('/src/**/*.js') }),
+    )
+  })
+
+  it('supports not', () => {
+    expect({ fs: vol }).toEqual({ fs: expect.not.volumeContaining(['/dist']) })
+    expect({ fs: vol }).not.toEqual({ fs: expect.not.volumeContaining(['/src']) })
+  })
+
+  it('does not match other values', () => {
+    expect({ '/src/index.js': 'export {}' }).not.toEqual(expect.volumeContaining(['/src/index.js']))
+    expect(null).not.toEqual(expect.volumeContaining([]))
+  })
+
+  it('throws on invalid entries', () => {
+    expect(() => expect(vol).toEqual(expect.volumeContaining(42 as any))).toThrowError(
+      /Invalid volume entries provided to `expect.volumeContaining\(\)`/,
+    )
+  })
+})
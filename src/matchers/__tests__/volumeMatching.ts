@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest'
+import { makeVol } from '@test/util.js'
+import { file } from '@/util/volume-spec.js'
+
+describe('expect.volumeMatching()', () => {
+  const vol = makeVol({ '/src/index.js': 'export {}', '/logs': null })
+
+  it('matches volumes matching the expected volume', () => {
+    expect(vol).toEqual(expect.volumeMatching({ '/src/index.js': 'export {}', '/logs': null }))
+    expect(vol).toEqual(
+      expect.volumeMatching(makeVol({ '/src/index.js': 'export {}', '/logs': null })),
+    )
+    expect(vol).toEqual(
+      expect.volumeMatching({ '/src': { 'index.js': file(/export/) }, '/logs': {} }),
+    )
+    expect(vol).not.toEqual(expect.volumeMatching({ '/src/index.js': 'export {}' }))
+  })
+
+  it('respects options', () => {
+    expect(vol).toEqual(expect.volumeMatching({ '/src/index.js': 'export {}' }, { prefix: '/src' }))
+    expect(vol).toEqual(
+      expect.volumeMatching({ '/src/index.js': 'export {}' }, { listMatch: 'ignore-extra' }),
+    )
+    expect(vol).toEqual(
+      expect.volumeMatching({ '/src/index.js': '', '/logs': null }, { contentMatch: 'ignore' }),
+    )
+  })
+
+  it('matches volumes nested in other values', () => {
+    const callback = vi.fn()
+    callback(vol, { dryRun: false })
+    expect(callback).toHaveBeenCalledWith(
+      expect.volumeMatching(
+        { '/src/index.js': expect.stringContaining('export') },
+        { exclude: 'logs' },
+      ),
+      { dryRun: false },
+    )
+    expect({ result: { fs: vol } }).toEqual(
+      expect.objectContaining({
+        result: { fs: expect.not.volumeMatching({ '/src/index.js': 'export default 1' }) },
+      }),
+    )
+  })
+
+  it('does not match other values', () => {
+    expect({ '/src/index.js': 'export {}' }).not.toEqual(
+      expect.volumeMatching({ '/src/index.js': 'export {}' }),
+    )
+  })
+})
@@ -2,8 +2,15 @@ export { default as toMatchVolume, type VolumeMatcherOptions } from './toMatchVo
 export {
   default as toMatchVolumeSnapshot,
   type VolumeSnapshotMatcherOptions,
+  type VolumeSnapshotFormat,
 } from './toMatchVolumeSnapshot.js'
+export {
+  default as toMatchInlineVolumeSnapshot,
+  type VolumeInlineSnapshotMatcherOptions,
+} from './toMatchInlineVolumeSnapshot.js'
 export {
   default as toHaveVolumeEntries,
   type VolumeEntriesMatcherOptions,
 } from './toHaveVolumeEntries.js'
+export { default as volumeContaining } from './volumeContaining.js'
+export { default as volumeMatching } from './volumeMatching.js'
@@ -0,0 +1,107 @@
+import { Volume } from 'memfs'
+import { createMatcher } from '@/util/common.js'
+import { createSnapshotStateUpdater, getSnapshotUpdateState } from '@/util/snapshot.js'
+import {
+  addInlineSnapshotMatcher,
+  createInlineSnapshotError,
+  stripInlineSnapshotIndentation,
+} from '@/util/inline-snapshot.js'
+import { serializeVolume, toSnapshotValue } from '@/util/volume-serialize.js'
+import { VolumeCompareOptions } from '@/util/volume-compare.js'
+
+export interface VolumeInlineSnapshotMatcherOptions
+  extends Pick<VolumeCompareOptions, 'prefix' | 'include' | 'exclude' | 'normalize'> {}
+
+declare module 'vitest' {
+  interface Matchers<T = any> {
+    /**
+     * Assert that a memfs volume matches the inline snapshot written into the test file.
+     */
+    toMatchInlineVolumeSnapshot(inlineSnapshot?: string): Promise<T>
+    toMatchInlineVolumeSnapshot(
+      options: VolumeInlineSnapshotMatcherOptions,
+      inlineSnapshot?: string,
+    ): Promise<T>
+  }
+}
+
+export default createMatcher(
+  'toMatchInlineVolumeSnapshot',
+  async function toMatchInlineVolumeSnapshot(received, ...args) {
+    if (this.isNot) {
+      throw new Error('toMatchInlineVolumeSnapshot() cannot be used with `not`')
+    }
+
+    // must be done before any await to keep the stack trace
+    const callSite = createInlineSnapshotError(toMatchInlineVolumeSnapshot)
+    const [options, inlineSnapshot]: [VolumeInlineSnapshotMatcherOptions?, string?] =
+      typeof args[0] === 'string' ? [undefined, args[0]] : [args[0], args[1]]
+
+    const { currentTestName, snapshotState, utils } = this
+    if (inlineSnapshot != null && typeof inlineSnapshot !== 'string') {
+      throw new TypeError(
+        `Inline snapshot passed to ${utils.matcherHint(
+          'toMatchInlineVolumeSnapshot',
+        )} must be a string, not \`${typeof inlineSnapshot}\``,
+      )
+    }
+
+    const testId = currentTestName!
+    const updateSnapshot = getSnapshotUpdateState(snapshotState)
+    const hasSnapshot = inlineSnapshot != null
+
+    if (!(received instanceof Volume)) {
+      return {
+        pass: createSnapshotStateUpdater(snapshotState, testId, hasSnapshot)(false),
+        message: () => `Expected ${utils.printReceived(received)} to be a memfs Volume instance`,
+        actual: received,
+        expected: new (class Volume {})(),
+      }
+    }
+
+    if (!callSite) {
+      throw new Error('Couldn’t find the toMatchInlineVolumeSnapshot() call in the stack trace')
+    }
+
+    // vitest compares, counts and writes the snapshot, like its own inline snapshots
+    addInlineSnapshotMatcher(snapshotState, 'toMatchInlineVolumeSnapshot', callSite)
+    const { prefix, include, exclude, normalize } = options ?? {}
+    const serialized = serializeVolume(received, { prefix, include, exclude, normalize })
+    const expected = hasSnapshot ? stripInlineSnapshotIndentation(inlineSnapshot) : undefined
+    const { pass, actual } = snapshotState.match({
+      testId,
+      testName: testId,
+      received: toSnapshotValue(serialized),
+      inlineSnapshot: expected,
+      isInline: true,
+      error: callSite.error,
+    })
+
+    if (pass) {
+      const written =
+        expected?.trim() !== serialized &&
+        (updateSnapshot === 'all' || (updateSnapshot === 'new' && !hasSnapshot))
+      return {
+        pass: true,
+        message: () =>
+          written
+            ? `${hasSnapshot ? 'Updated' : 'Created'} inline snapshot`
+            : 'Volume matched the inline snapshot',
+      }
+    }
+
+    if (!hasSnapshot) {
+      return {
+        pass: false,
+        message: () => 'Inline snapshot does not exist',
+      }
+    }
+
+    return {
+      pass: false,
+      message: () => 'Volume didn’t match the inline snapshot',
+      actual: actual?.trim(),
+      expected: expected.trim(),
+    }
+  },
+)
@@ -1,18 +1,22 @@
-import { Volume, DirectoryJSON } from 'memfs'
+import { Volume } from 'memfs'
 import { createMatcher, isPlainObject } from '@/util/common.js'
-import { volumeToMap } from '@/util/volume.js'
+import { volumeToMap, VolumeMap } from '@/util/volume.js'
+import { specToVolumeMap, VolumeSpec } from '@/util/volume-spec.js'
+import { isMemfsSnapshot, memfsSnapshotToVolume, SnapshotNode } from '@/util/memfs-snapshot.js'
 import { compareVolumeMaps, VolumeCompareOptions } from '@/util/volume-compare.js'
 
-export interface VolumeMatcherOptions extends VolumeCompareOptions {
-  prefix?: string
-}
+export interface VolumeMatcherOptions extends VolumeCompareOptions {}
 
 declare module 'vitest' {
   interface Matchers<T = any> {
     /**
-     * Assert that a memfs volume matches another volume or JSON input.
+     * Assert that a memfs volume matches another volume, a volume spec or a memfs snapshot.
+     * Spec file contents can also be RegExp literals or asymmetric matchers.
      */
-    toMatchVolume(expected: Volume | DirectoryJSON, options?: VolumeMatcherOptions): T
+    toMatchVolume(
+      expected: Volume | VolumeSpec | SnapshotNode | Uint8Array,
+      options?: VolumeMatcherOptions,
+    ): T
   }
 }
 
@@ -27,30 +31,43 @@ export default createMatcher('toMatchVolume', function (received, expected, opti
     }
   }
 
-  let expectedVol: Volume
+  // a volume always kept its own timestamps, which `changed` patterns must not accept
+  if (received === expected && !options?.timestamps) {
+    return {
+      pass: true,
+      message: () => 'Volumes matched by reference',
+    }
+  }
+
+  const { prefix, include, exclude } = options ?? {}
+  const withData = options?.contentMatch !== 'ignore' && options?.contentMatch !== 'ignore-files'
+  const withMeta = !!options?.metadata
+  const withTimes = !!options?.timestamps
+  const mapOptions = { prefix, withData, withMeta, withTimes, include, exclude }
+
+  let expectedMap: VolumeMap
   if (expected instanceof Volume) {
-    expectedVol = expected
-  } else if (isPlainObject(expected)) {
-    expectedVol = Volume.fromJSON(expected)
+    expectedMap = volumeToMap(expected, mapOptions)
+  } else if (isPlainObject(expected) || isMemfsSnapshot(expected)) {
+    if (withTimes) {
+      throw new TypeError(
+        `The \`timestamps\` option of ${utils.matcherHint(
+          'toMatchVolume',
+        )} requires a memfs Volume instance as the baseline`,
+      )
+    }
+    expectedMap = isMemfsSnapshot(expected)
+      ? volumeToMap(memfsSnapshotToVolume(expected), mapOptions)
+      : specToVolumeMap(expected, mapOptions)
   } else {
     throw new TypeError(
-      `You must provide a memfs Volume instance or plain JSON object to ${utils.matcherHint(
+      `You must provide a memfs Volume instance, plain JSON object or memfs snapshot to ${utils.matcherHint(
         'toMatchVolume',
       )}, not \`${typeof expected}\``,
     )
   }
 
-  if (received === expectedVol) {
-    return {
-      pass: true,
-      message: () => 'Volumes matched by reference',
-    }
-  }
-
-  const prefix = options?.prefix ?? undefined
-  const withData = options?.contentMatch !== 'ignore' && options?.contentMatch !== 'ignore-files'
-  const receivedMap = volumeToMap(received, { prefix, withData })
-  const expectedMap = volumeToMap(expectedVol, { prefix, withData })
+  const receivedMap = volumeToMap(received, mapOptions)
 
   const result = compareVolumeMaps(receivedMap, expectedMap, options)
   if (result.pass === true) {
@@ -1,101 +1,293 @@
 import path from 'path'
-import type { SnapshotUpdateState } from 'vitest'
 import { Volume } from 'memfs'
-import { createMatcher, importActualFS } from '@/util/common.js'
-import { readDirToMap, volumeToMap, writeVolumeToDir } from '@/util/volume.js'
+import { createMatcher, importActualFS, isPathInside, isPlainObject } from '@/util/common.js'
+import {
+  createSnapshotStateUpdater,
+  getNextSnapshotDirName,
+  getSnapshotDirKey,
+  getSnapshotDirRoot,
+  getSnapshotEntryKey,
+  getSnapshotUpdateState,
+  resolveSnapshotDir,
+  trackSnapshotDir,
+} from '@/util/snapshot.js'
+import {
+  readDirToMap,
+  resolveMetaFields,
+  syncVolumeToDir,
+  volumeToMap,
+  writeVolumeToDir,
+} from '@/util/volume.js'
+import { readArchiveToMap, writeVolumeToArchive } from '@/util/volume-archive.js'
+import { readMemfsSnapshotToMap, writeVolumeToMemfsSnapshot } from '@/util/memfs-snapshot.js'
 import { compareVolumeMaps, VolumeCompareOptions } from '@/util/volume-compare.js'
+import { BLOBS_DIRNAME, readVolumeManifest, writeVolumeManifest } from '@/util/volume-manifest.js'
+import { serializeVolume, toSnapshotValue } from '@/util/volume-serialize.js'
 
-export interface VolumeSnapshotMatcherOptions extends VolumeCompareOptions {
-  prefix?: string
+export type VolumeSnapshotFormat =
+  | 'dir' // a directory next to the `.snap` file, mirroring the volume (default)
+  | 'snap' // a serialized entry in the test file's `.snap` file
+  | 'manifest' // a directory with a manifest file, contents are kept in a shared blob store
+  | 'tar' // a single `<snapshotDir>.tar` archive
+  | 'tar.gz' // a single gzipped `<snapshotDir>.tar.gz` archive
+  | 'memfs-json' // a single `<snapshotDir>.json` file, in memfs's JSON snapshot encoding
+  | 'memfs-cbor' // a single `<snapshotDir>.cbor` file, in memfs's CBOR snapshot encoding
+
+// timestamps are not kept in snapshots
+export interface VolumeSnapshotMatcherOptions extends Omit<VolumeCompareOptions, 'timestamps'> {
+  // How to store the snapshot.
+  format?: VolumeSnapshotFormat
+  // Allow `snapshotDir` to be an absolute path, or a relative path outside the snapshot folder.
+  allowExternalPath?: boolean
+  // Write a placeholder file into empty directories, so they are kept by version control.
+  emptyDirMarkers?: boolean
+  // Store only the hash of files larger than this many bytes, with the `manifest` format.
+  maxBlobSize?: number
 }
 
 declare module 'vitest' {
   interface Matchers<T = any> {
     /**
      * Assert that a memfs volume matches the snapshot directory.
+     * The directory is named after the test when `snapshotDir` is omitted.
      */
-    toMatchVolumeSnapshot(snapshotDir: string, options?: VolumeSnapshotMatcherOptions): Promise<T>
+    toMatchVolumeSnapshot(options: VolumeSnapshotMatcherOptions): Promise<T>
+    toMatchVolumeSnapshot(snapshotDir?: string, options?: VolumeSnapshotMatcherOptions): Promise<T>
   }
 }
 
 export default createMatcher(
   'toMatchVolumeSnapshot',
-  async function (received, snapshotDir, options) {
+  async function toMatchVolumeSnapshot(received, ...args) {
     if (this.isNot) {
       throw new Error('toMatchVolumeSnapshot() cannot be used with `not`')
     }
 
+    const [snapshotDirArg, options] = isPlainObject(args[0])
+      ? [undefined, args[0] as VolumeSnapshotMatcherOptions]
+      : [args[0], args[1]]
+
     const { currentTestName, snapshotState, utils } = this
-    if (!snapshotDir || typeof snapshotDir !== 'string') {
+    if (snapshotDirArg != null && (!snapshotDirArg || typeof snapshotDirArg !== 'string')) {
+      throw new TypeError(
+        `Snapshot directory name passed to ${utils.matcherHint(
+          'toMatchVolumeSnapshot',
+        )} must be a non-empty string, not \`${typeof snapshotDirArg}\``,
+      )
+    }
+
+    const isArchive = options?.format === 'tar' || options?.format === 'tar.gz'
+    const memfsEncoding =
+      options?.format === 'memfs-json' ? 'json' : options?.format === 'memfs-cbor' ? 'cbor' : null
+    const isFile = isArchive || memfsEncoding != null
+
+    if ((memfsEncoding || options?.format === 'snap') && options?.metadata) {
+      throw new TypeError(
+        `The \`metadata\` option of ${utils.matcherHint(
+          'toMatchVolumeSnapshot',
+        )} is not supported by the \`${options.format}\` format, which stores no metadata`,
+      )
+    }
+    if (
+      options?.format === 'manifest' &&
+      resolveMetaFields(options.metadata).some((field) => field !== 'mode')
+    ) {
+      throw new TypeError(
+        `The \`uid\` and \`gid\` metadata of ${utils.matcherHint(
+          'toMatchVolumeSnapshot',
+        )} are not supported by the \`manifest\` format, which only stores modes`,
+      )
+    }
+
+    // named after validation, so a failed call doesn't use up a name
+    const snapshotDir = snapshotDirArg ?? getNextSnapshotDirName(snapshotState, currentTestName!)
+    const testId = getSnapshotDirKey(currentTestName!, snapshotDir)
+    const notVolumeResult = (pass: boolean) => ({
+      pass,
+      message: () => `Expected ${utils.printReceived(received)} to be a memfs Volume instance`,
+      actual: received,
+      expected: new (class Volume {})(),
+    })
+
+    const { prefix, include, exclude } = options ?? {}
+    const withData = options?.contentMatch !== 'ignore' && options?.contentMatch !== 'ignore-files'
+    const withMeta = !!options?.metadata
+
+    if (options?.format === 'snap') {
+      // vitest takes care of writing, updating and comparing `.snap` entries,
+      // so the snapshot name is only a key and no path checks apply
+      if (!(received instanceof Volume)) {
+        return notVolumeResult(false)
+      }
+      const key = getSnapshotEntryKey(currentTestName!, snapshotDir)
+      const { pass, actual, expected } = snapshotState.match({
+        testId: key,
+        testName: key,
+        key,
+        received: toSnapshotValue(
+          serializeVolume(received, {
+            prefix,
+            withData,
+            include,
+            exclude,
+            normalize: options.normalize,
+          }),
+        ),
+        isInline: false,
+      })
+      if (pass) {
+        return {
+          pass: true,
+          message: () => `Volume matched the snapshot ${snapshotDir}`,
+        }
+      }
+      return {
+        pass: false,
+        message: () => `Volume didn’t match the snapshot ${snapshotDir}`,
+        actual,
+        expected,
+      }
+    }
+
+    // single file formats are named after the snapshot directory
+    const snapshotName = isArchive
+      ? `${snapshotDir}.${options!.format}`
+      : memfsEncoding
+        ? `${snapshotDir}.${memfsEncoding}`
+        : snapshotDir
+
+    // keep `-u` from clearing directories outside the snapshot folder by accident
+    const snapshotRoot = getSnapshotDirRoot(snapshotState)
+    const externalPath = path.resolve(snapshotRoot, snapshotName)
+    const isExternal = path.isAbsolute(snapshotDir) || !isPathInside(snapshotRoot, externalPath)
+    if (isExternal && !options?.allowExternalPath) {
       throw new TypeError(
-        `You must provide a snapshot directory name to ${utils.matcherHint(
+        `Snapshot directory passed to ${utils.matcherHint(
           'toMatchVolumeSnapshot',
-        )}, not \`${typeof snapshotDir}\``,
+        )} must be a relative path inside the snapshot folder, not \`${snapshotDir}\`. ` +
+          'Use the `allowExternalPath` option to store it elsewhere',
+      )
+    }
+    if (isExternal && (externalPath === snapshotRoot || isPathInside(externalPath, snapshotRoot))) {
+      throw new TypeError(
+        `Snapshot directory passed to ${utils.matcherHint(
+          'toMatchVolumeSnapshot',
+        )} must not contain the snapshot folder, got \`${snapshotDir}\``,
       )
     }
 
     const fsp = await importActualFS()
-    const testId = `${currentTestName} > volume snapshots > ${snapshotDir}`
-    const snapshotDirPath = path.join(path.dirname(snapshotState.snapshotPath), snapshotDir)
-    const updateSnapshot: SnapshotUpdateState = (snapshotState as any)._updateSnapshot
+    const snapshotDirPath = isExternal
+      ? externalPath
+      : isFile
+        ? path.join(snapshotRoot, snapshotName)
+        : await resolveSnapshotDir(snapshotState, snapshotDir)
+    // blobs of manifest snapshots are shared by the snapshots of the test file,
+    // external ones store their own
+    const blobsDirPath = path.join(isExternal ? snapshotDirPath : snapshotRoot, BLOBS_DIRNAME)
+    const updateSnapshot = getSnapshotUpdateState(snapshotState)
     const hasSnapshot = await fsp
       .lstat(snapshotDirPath)
-      .then((s) => s.isDirectory())
+      .then((s) => (isFile ? s.isFile() : s.isDirectory()))
       .catch(() => false)
-    const updateSnapshotState = (passed: boolean) => {
-      if (
-        (hasSnapshot && updateSnapshot === 'all') ||
-        (!hasSnapshot && (updateSnapshot === 'new' || updateSnapshot === 'all'))
-      ) {
-        if (updateSnapshot === 'all') {
-          if (!passed) {
-            if (hasSnapshot) {
-              snapshotState.unmatched.increment(testId)
-            }
-          } else {
-            hasSnapshot //
-              ? snapshotState.updated.increment(testId)
-              : snapshotState.added.increment(testId)
+    const updateSnapshotState = createSnapshotStateUpdater(snapshotState, testId, hasSnapshot)
+
+    if (!(received instanceof Volume)) {
+      return notVolumeResult(updateSnapshotState(false))
+    }
+
+    // keeps the snapshot directory from being reported as obsolete,
+    // external directories are never pruned so they are not tracked
+    if (!isExternal) {
+      trackSnapshotDir(snapshotState, snapshotName, currentTestName!)
+    }
+
+    if (updateSnapshot === 'all' || (updateSnapshot !== 'none' && !hasSnapshot)) {
+      const writeOptions = {
+        prefix,
+        withData,
+        include,
+        exclude,
+        normalize: options?.normalize,
+        meta: options?.metadata,
+        emptyDirMarkers: options?.emptyDirMarkers,
+      }
+      if (isFile || options?.format === 'manifest') {
+        const changed = isArchive
+          ? await writeVolumeToArchive(received, snapshotDirPath, writeOptions)
+          : memfsEncoding
+            ? await writeVolumeToMemfsSnapshot(received, snapshotDirPath, {
+                ...writeOptions,
+                encoding: memfsEncoding,
+              })
+            : await writeVolumeManifest(received, snapshotDirPath, {
+                ...writeOptions,
+                blobsDirPath,
+                maxBlobSize: options?.maxBlobSize,
+                // external manifests keep their own blobs, which no other test file prunes
+                pruneBlobs: isExternal,
+              })
+        if (hasSnapshot && !changed) {
+          createSnapshotStateUpdater(snapshotState, testId, hasSnapshot, 'none')(true)
+          return {
+            pass: true,
+            message: () => `Volume matched the snapshot at ${snapshotName}`,
           }
-        } else {
-          snapshotState.added.increment(testId)
         }
-      } else {
-        passed //
-          ? snapshotState.matched.increment(testId)
-          : snapshotState.unmatched.increment(testId)
+        return {
+          pass: updateSnapshotState(true),
+          message: () => `${hasSnapshot ? 'Updated' : 'Created'} snapshot at ${snapshotName}`,
+        }
       }
-      return passed
-    }
 
-    if (!(received instanceof Volume)) {
-      return {
-        pass: updateSnapshotState(false),
-        message: () => `Expected ${utils.printReceived(received)} to be a memfs Volume instance`,
-        actual: received,
-        expected: new (class Volume {})(),
+      if (!hasSnapshot) {
+        await writeVolumeToDir(received, snapshotDirPath, { ...writeOptions, clear: true })
+        return {
+          pass: updateSnapshotState(true),
+          message: () => `Created snapshot at ${snapshotDir}`,
+        }
       }
-    }
 
-    const prefix = options?.prefix ?? undefined
-    const withData = options?.contentMatch !== 'ignore' && options?.contentMatch !== 'ignore-files'
-    if (updateSnapshot === 'all' || (updateSnapshot !== 'none' && !hasSnapshot)) {
-      await writeVolumeToDir(received, snapshotDirPath, { prefix, withData, clear: true })
+      // only changed files are written, unchanged snapshots count as matched
+      const { added, updated, removed } = await syncVolumeToDir(
+        received,
+        snapshotDirPath,
+        writeOptions,
+      )
+      if (added + updated + removed === 0) {
+        createSnapshotStateUpdater(snapshotState, testId, hasSnapshot, 'none')(true)
+        return {
+          pass: true,
+          message: () => `Volume matched the snapshot at ${snapshotDir}`,
+        }
+      }
       return {
         pass: updateSnapshotState(true),
-        message: () => `${hasSnapshot ? 'Updated' : 'Created'} snapshot at ${snapshotDir}`,
+        message: () =>
+          `Updated snapshot at ${snapshotDir} (${added} added, ${updated} updated, ${removed} removed)`,
       }
     }
 
     if (!hasSnapshot) {
       return {
         pass: updateSnapshotState(false),
-        message: () => `Snapshot directory \`${snapshotDir}\` does not exist`,
+        message: () =>
+          `Snapshot ${isArchive ? 'archive' : isFile ? 'file' : 'directory'} \`${snapshotName}\` does not exist`,
       }
     }
 
-    const expectedMap = await readDirToMap(snapshotDirPath, { prefix, withData })
-    const receivedMap = volumeToMap(received, { prefix, withData })
+    const mapOptions = { prefix, withData, withMeta, include, exclude }
+    const expectedMap = isArchive
+      ? await readArchiveToMap(snapshotDirPath, mapOptions)
+      : memfsEncoding
+        ? await readMemfsSnapshotToMap(snapshotDirPath, mapOptions)
+        : options?.format === 'manifest'
+          ? await readVolumeManifest(snapshotDirPath, { ...mapOptions, blobsDirPath })
+          : await readDirToMap(snapshotDirPath, {
+              ...mapOptions,
+              emptyDirMarkers: options?.emptyDirMarkers,
+            })
+    const receivedMap = volumeToMap(received, mapOptions)
 
     const result = compareVolumeMaps(receivedMap, expectedMap, options)
     updateSnapshotState(result.pass)
@@ -103,7 +295,7 @@ export default createMatcher(
     if (result.pass === true) {
       return {
         pass: true,
-        message: () => `Volume matched the snapshot at ${snapshotDir}`,
+        message: () => `Volume matched the snapshot at ${snapshotName}`,
       }
     }
 
@@ -0,0 +1,48 @@
+import { Volume } from 'memfs'
+import { createMatcher } from '@/util/common.js'
+import { scanVolumePaths } from '@/util/volume.js'
+import { createMatchRules, matchEntries, VolumeEntries, MatchRules } from '@/util/volume-entries.js'
+import type { VolumeEntriesMatcherOptions } from './toHaveVolumeEntries.js'
+
+declare module 'vitest' {
+  interface AsymmetricMatchersContaining {
+    /**
+     * Matches a memfs volume that contains the expected paths, like `toHaveVolumeEntries`.
+     */
+    volumeContaining(expected: VolumeEntries, options?: VolumeEntriesMatcherOptions): any
+  }
+}
+
+// registered with `expect.extend` to be used as `expect.volumeContaining()`
+export default createMatcher('volumeContaining', function (received, expected, options) {
+  const { utils } = this
+
+  if (!(received instanceof Volume)) {
+    return {
+      pass: false,
+      message: () => `Expected ${utils.printReceived(received)} to be a memfs Volume instance`,
+    }
+  }
+
+  let rules: MatchRules
+  try {
+    rules = createMatchRules(expected, options?.prefix)
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new TypeError(
+        `Invalid volume entries provided to \`expect.volumeContaining()\`. ${error.message}`,
+      )
+    }
+    throw error
+  }
+
+  // `expect.not.volumeContaining()` inverts the result, so `isNot` is not checked here
+  const { missingCount, typeCount } = matchEntries(scanVolumePaths(received), rules)
+  return {
+    pass: missingCount === 0 && typeCount === 0,
+    message: () =>
+      missingCount === 0 && typeCount === 0
+        ? 'Volume contained the expected entries'
+        : 'Volume did not contain the expected entries',
+  }
+})
@@ -0,0 +1,22 @@
+import type { Volume } from 'memfs'
+import { createMatcher } from '@/util/common.js'
+import type { VolumeSpec } from '@/util/volume-spec.js'
+import type { SnapshotNode } from '@/util/memfs-snapshot.js'
+import toMatchVolume, { type VolumeMatcherOptions } from './toMatchVolume.js'
+
+declare module 'vitest' {
+  interface AsymmetricMatchersContaining {
+    /**
+     * Matches a memfs volume that matches the expected volume, like `toMatchVolume`.
+     */
+    volumeMatching(
+      expected: Volume | VolumeSpec | SnapshotNode | Uint8Array,
+      options?: VolumeMatcherOptions,
+    ): any
+  }
+}
+
+// registered with `expect.extend` to be used as `expect.volumeMatching()`
+export default createMatcher('volumeMatching', function (received, expected, options) {
+  return toMatchVolume.call(this, received, expected, options)
+})
@@ -1,8 +1,33 @@
-import { expect } from 'vitest'
+import { afterAll, beforeEach, expect } from 'vitest'
 import * as matchers from './matchers/index.js'
+import { finishSnapshotDirs, resetSnapshotDirNames } from './util/snapshot.js'
+import { volumeSerializer } from './util/volume-serialize.js'
+import { volumeEqualityTester } from './util/volume-equality.js'
 
 // Register all matchers
 expect.extend(matchers)
 
+// Print volumes as directory trees in snapshots
+expect.addSnapshotSerializer(volumeSerializer)
+
+// Compare volumes by content in `toEqual` and other deep equality checks
+expect.addEqualityTesters([volumeEqualityTester])
+
+// Restart automatic snapshot directory names when a test is retried
+beforeEach(() => {
+  const { currentTestName, snapshotState } = expect.getState()
+  if (currentTestName && snapshotState) {
+    resetSnapshotDirNames(snapshotState, currentTestName)
+  }
+})
+
+// Report and prune obsolete snapshot directories once the test file is done
+afterAll(async (suite) => {
+  const { snapshotState } = expect.getState()
+  if ('filepath' in suite && snapshotState?.testFilePath === suite.filepath) {
+    await finishSnapshotDirs(snapshotState, suite)
+  }
+})
+
 // Needed for global matcher types to be available
 export type {} from './matchers/index.js'
@@ -0,0 +1 @@
+src/index.js
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import path from 'node:path'
+import fsx from 'fs-extra'
+import { makeVol } from '@test/util.js'
+import { volumeFromArchive, volumeToArchive, VolumeArchiveFormat } from '../volume-archive.js'
+import { packTar, unpackTar } from '../tar.js'
+
+const formats: VolumeArchiveFormat[] = ['tar', 'tar.gz', 'zip']
+
+function makeSampleVol() {
+  const vol = makeVol({
+    '/src/index.js': 'export default 1\n',
+    '/bin/cli.sh': '#!/bin/sh\necho hi\n',
+    '/bin/data.bin': Buffer.alloc(1_000, 0xbb),
+    '/logs': null,
+  })
+  vol.chmodSync('/bin/cli.sh', 0o755)
+  vol.symlinkSync('/src/index.js', '/index-link.js')
+  return vol
+}
+
+describe('volumeToArchive() / volumeFromArchive()', () => {
+  it.each(formats)('round trips volumes (%s)', (format) => {
+    const vol = makeSampleVol()
+    const archive = volumeToArchive(vol, { format })
+    const unpacked = volumeFromArchive(archive)
+    expect(unpacked).toMatchVolume(vol, { metadata: true })
+    expect(unpacked.readlinkSync('/index-link.js')).toBe('/src/index.js')
+  })
+
+  it.each(formats)('packs the same volume into the same archive (%s)', (format) => {
+    const archive = volumeToArchive(makeSampleVol(), { format })
+    expect(volumeToArchive(makeSampleVol(), { format }).equals(archive)).toBe(true)
+  })
+
+  it('defaults to tar', () => {
+    const archive = volumeToArchive(makeVol({ '/foo.txt': 'hi' }))
+    expect(archive.toString('latin1', 257, 262)).toBe('ustar')
+  })
+
+  it('respects prefix, include and exclude options', () => {
+    const vol = makeVol({ '/src/foo.txt': 'hi', '/src/foo.log': 'log', '/bar.txt': 'hey' })
+    const archive = volumeToArchive(vol, { format: 'zip', prefix: '/src', exclude: '*.log' })
+    expect(volumeFromArchive(archive)).toMatchVolume({ '/foo.txt': 'hi' })
+  })
+
+  it('unpacks into a prefix of an existing volume', () => {
+    const vol = makeVol({ '/foo.txt': 'hi' })
+    const archive = volumeToArchive(makeVol({ '/bar.txt': 'hey' }), { format: 'tar.gz' })
+    expect(volumeFromArchive(archive, { volume: vol, prefix: '/out' })).toBe(vol)
+    expect(vol).toMatchVolume({ '/foo.txt': 'hi', '/out/bar.txt': 'hey' })
+  })
+
+  it.each(['gnu.tar.gz', 'info-zip.zip'])(
+    'reads archives made by other tools (%s)',
+    async (name) => {
+      const deepPath = `/src/deep/${'long-directory-name/'.repeat(6)}file.txt`
+      const archive = await fsx.readFile(path.join(__dirname, '__fixtures__', name))
+      const vol = volumeFromArchive(archive)
+      expect(vol).toMatchVolume(
+        {
+          '/bin/cli.sh': '#!/bin/sh\necho hi\n',
+          '/logs': null,
+          '/src/index.txt': 'hello\n',
+          [deepPath]: 'deep\n',
+        },
+        { exclude: 'bin/link.txt' },
+      )
+      expect(vol.readlinkSync('/bin/link.txt')).toBe('../src/index.txt')
+      expect(Number(vol.statSync('/bin/cli.sh').mode) & 0o7777).toBe(0o755)
+      expect(Number(vol.statSync('/src/index.txt').mode) & 0o7777).toBe(0o644)
+    },
+  )
+
+  it('throws on entries outside the volume root', () => {
+    const archive = packTar([{ path: '../evil.txt', type: 'file', data: Buffer.from('') }])
+    expect(() => volumeFromArchive(archive, { prefix: '/out' })).toThrow(
+      'Archive entry `../evil.txt` points outside of `/out`',
+    )
+  })
+
+  it('round trips ids that do not fit in octal tar fields', () => {
+    const entry = { path: 'foo.txt', type: 'file', uid: 2 ** 31, gid: 2 ** 40 } as const
+    expect(unpackTar(packTar([entry]))).toEqual([{ ...entry, mode: 0o644, data: Buffer.alloc(0) }])
+  })
+
+  it('throws on invalid archives', () => {
+    expect(() => volumeFromArchive(Buffer.alloc(512, 1))).toThrow(/Invalid tar header checksum/)
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest'
+import { makeVol } from '@test/util.js'
+import { volumeEqualityTester } from '../volume-equality.js'
+
+describe('volumeEqualityTester()', () => {
+  it('compares volumes by content', () => {
+    const vol = makeVol({ '/foo.txt': 'hi', '/empty': null })
+    expect(volumeEqualityTester(vol, makeVol({ '/foo.txt': 'hi', '/empty': null }))).toBe(true)
+    expect(volumeEqualityTester(vol, makeVol({ '/foo.txt': 'hey', '/empty': null }))).toBe(false)
+    expect(volumeEqualityTester(vol, makeVol({ '/foo.txt': 'hi' }))).toBe(false)
+  })
+
+  it('compares volumes with DirectoryJSON objects on either side', () => {
+    const vol = makeVol({ '/src/index.js': 'export {}' })
+    expect(volumeEqualityTester(vol, { '/src/index.js': 'export {}' })).toBe(true)
+    expect(volumeEqualityTester({ '/src/index.js': 'export {}' }, vol)).toBe(true)
+    expect(volumeEqualityTester(vol, { '/src/index.js': 'export default 1' })).toBe(false)
+  })
+
+  it('leaves other values to the default checks', () => {
+    const vol = makeVol({ '/foo.txt': 'hi' })
+    expect(volumeEqualityTester(vol, { '/foo.txt': { nested: true } })).toBeUndefined()
+    expect(volumeEqualityTester(vol, 'hi')).toBeUndefined()
+    expect(volumeEqualityTester({ '/foo.txt': 'hi' }, { '/foo.txt': 'hi' })).toBeUndefined()
+  })
+
+  it('is used by deep equality checks', () => {
+    const meta = { name: 'build' }
+    const vol = makeVol({ '/dist/main.js': 'console.log(1)' })
+    expect({ vol, meta }).toEqual({ vol: makeVol({ '/dist/main.js': 'console.log(1)' }), meta })
+    expect({ vol, meta }).toStrictEqual({ vol: { '/dist/main.js': 'console.log(1)' }, meta })
+    expect({ vol, meta }).not.toEqual({ vol: makeVol({ '/dist/main.js': '' }), meta })
+
+    const callback = vi.fn()
+    callback(vol)
+    expect(callback).toHaveBeenCalledWith(makeVol({ '/dist/main.js': 'console.log(1)' }))
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { makeVol } from '@test/util.js'
+import { volumeSerializer } from '../volume-serialize.js'
+
+function makeSampleVol() {
+  const vol = makeVol({
+    '/src/index.js': 'export default 1\n',
+    '/src/lib/util.js': '',
+    '/bin/data.bin': Buffer.alloc(1_000, 0xbb),
+    '/bin/small.bin': Buffer.from([0xde, 0xad, 0xbe, 0xef]),
+    '/logs': null,
+  })
+  vol.symlinkSync('/src/index.js', '/index.js')
+  return vol
+}
+
+describe('volumeSerializer', () => {
+  it('prints volumes as a sorted tree', () => {
+    expect(makeSampleVol()).toMatchSnapshot()
+  })
+
+  it('prints nested volumes', () => {
+    expect({ name: 'build', vol: makeVol({ '/foo.txt': 'hi' }), vols: [makeVol()] })
+      .toMatchInlineSnapshot(`
+      {
+        "name": "build",
+        "vol": Volume {
+          foo.txt
+            | hi
+        },
+        "vols": [
+          Volume {},
+        ],
+      }
+    `)
+  })
+
+  it('escapes carriage returns', () => {
+    const vol = makeVol({ '/crlf.txt': 'a\r\nb\\r\r\n', '/lf.txt': 'a\\r\n' })
+    expect(vol).toMatchInlineSnapshot(`
+      Volume {
+        crlf.txt (escaped)
+          | a\\r
+          | b\\\\r\\r
+          |
+        lf.txt
+          | a\\r
+          |
+      }
+    `)
+  })
+
+  it('only handles memfs volumes', () => {
+    expect(volumeSerializer.test(makeVol())).toBe(true)
+    expect(volumeSerializer.test({ '/foo.txt': 'hi' })).toBe(false)
+    expect(volumeSerializer.test(null)).toBe(false)
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { makeVol } from '@test/util.js'
+import { binary, createVolume, file, symlink } from '../volume-spec.js'
+
+describe('createVolume()', () => {
+  it('creates volumes from a spec', () => {
+    const vol = createVolume({
+      '/src': {
+        'index.js': 'export default 1',
+        'lib/util.js': '',
+      },
+      '/bin': {
+        'cli.sh': file('echo hi', { mode: 0o755 }),
+        'data.bin': binary([0xde, 0xad, 0xbe, 0xef]),
+      },
+      '/index.js': symlink('/src/index.js'),
+      '/logs': null,
+      '/tmp': {},
+    })
+    expect(vol.toJSON()).toEqual({
+      '/src/index.js': 'export default 1',
+      '/src/lib/util.js': '',
+      '/bin/cli.sh': 'echo hi',
+      '/bin/data.bin': Buffer.from([0xde, 0xad, 0xbe, 0xef]).toString(),
+      '/logs': null,
+      '/tmp': null,
+    })
+    expect(vol.readlinkSync('/index.js')).toBe('/src/index.js')
+    expect(Number(vol.statSync('/bin/cli.sh').mode) & 0o7777).toBe(0o755)
+  })
+
+  it('creates entries in an existing volume', () => {
+    const vol = makeVol({ '/foo.txt': 'hi' })
+    expect(createVolume({ '/bar': { 'baz.txt': 'hey' } }, { volume: vol })).toBe(vol)
+    expect(vol).toMatchVolume({ '/foo.txt': 'hi', '/bar/baz.txt': 'hey' })
+  })
+
+  it('throws on matchers', () => {
+    expect(() => createVolume({ '/dist': { 'main.js': /console/ } })).toThrow(
+      'Matchers can only be used in expected volumes, got one at `/dist/main.js`',
+    )
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import path from 'node:path'
+import { makeVol } from '@test/util.js'
+import { loadVolumeFromDir } from '../volume.js'
+
+const fixtureDir = path.join(__dirname, '__fixtures__', 'fixture-dir')
+
+describe('loadVolumeFromDir()', () => {
+  it('loads files, symlinks and empty dirs', async () => {
+    const vol = await loadVolumeFromDir(fixtureDir, { emptyDirMarkers: true })
+    expect(vol).toMatchVolume(
+      {
+        '/src/index.js': 'export default 1\n',
+        '/src/index.test.js': 'export {}\n',
+        '/empty': null,
+      },
+      { exclude: 'link.js' },
+    )
+    expect(vol.readlinkSync('/link.js')).toBe('src/index.js')
+  })
+
+  it('loads empty dir markers as files by default', async () => {
+    const vol = await loadVolumeFromDir(fixtureDir, { include: 'empty' })
+    expect(vol).toMatchVolume({ '/empty/.volume-keep': '' })
+  })
+
+  it('respects prefix, include and exclude options', async () => {
+    const vol = await loadVolumeFromDir(fixtureDir, {
+      prefix: '/project',
+      include: 'src',
+      exclude: '**/*.test.js',
+    })
+    expect(vol).toMatchVolume({ '/project/src/index.js': 'export default 1\n' })
+  })
+
+  it('loads into an existing volume', async () => {
+    const vol = makeVol({ '/foo.txt': 'hi' })
+    expect(await loadVolumeFromDir(fixtureDir, { volume: vol, prefix: '/out' })).toBe(vol)
+    expect(vol.readFileSync('/foo.txt', 'utf8')).toBe('hi')
+    expect(vol.readFileSync('/out/src/index.js', 'utf8')).toBe('export default 1\n')
+  })
+
+  it('throws when the directory does not exist', async () => {
+    await expect(loadVolumeFromDir(path.join(fixtureDir, 'missing'))).rejects.toThrow(/ENOENT/)
+  })
+})
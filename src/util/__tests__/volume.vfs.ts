@@ -0,0 +1,16 @@
+import { vi, describe, expect, it } from 'vitest'
+import path from 'node:path'
+import { readdir } from 'fs/promises'
+import { loadVolumeFromDir } from '../volume.js'
+
+// Use virtual file system global mocks
+vi.mock('fs')
+vi.mock('fs/promises')
+
+describe('loadVolumeFromDir() [vfs]', () => {
+  it('works correctly with fs mock', async () => {
+    const vol = await loadVolumeFromDir(path.join(__dirname, '__fixtures__', 'fixture-dir'))
+    expect(vol.readFileSync('/src/index.js', 'utf8')).toBe('export default 1\n')
+    expect(readdir).not.toBeCalled() // readdir here is mocked, it should never be called
+  })
+})
@@ -0,0 +1,207 @@
+import path from 'node:path'
+import { createHash, randomBytes } from 'node:crypto'
+// not affected by fake timers
+import { setTimeout } from 'node:timers/promises'
+import { importActualFS } from './common.js'
+
+// delay between attempts to acquire a lock held by another worker
+const LOCK_RETRY_DELAY = 25
+
+// names of the temporary files of `replaceFile()`
+const TEMP_FILE_RE = /^\..+\.tmp-\d+-[0-9a-f]+$/
+
+/**
+ * Replace a directory with the one created by `write`, which writes into a staging directory
+ * next to the target. The staging directory is swapped in with a rename once complete, so the
+ * existing directory is left intact if writing fails.
+ *
+ * @param targetDirPath directory to replace
+ * @param write function that writes the new contents into the given directory, it may resolve
+ * to `false` to keep the existing directory instead
+ */
+export async function replaceDir(
+  targetDirPath: string,
+  write: (dirPath: string) => Promise<boolean | void>,
+) {
+  const fsp = await importActualFS()
+  await withDirLock(targetDirPath, async () => {
+    const stagingPath = getSiblingPath(targetDirPath, 'tmp')
+    const backupPath = getSiblingPath(targetDirPath, 'old')
+    try {
+      await fsp.mkdir(stagingPath, { recursive: true })
+      if ((await write(stagingPath)) === false) return
+
+      // directories can't be renamed over non-empty ones, so move the old one out of the way
+      const hasTarget = await fsp.rename(targetDirPath, backupPath).then(
+        () => true,
+        (e) => (e.code === 'ENOENT' ? false : Promise.reject(e)),
+      )
+      try {
+        await fsp.rename(stagingPath, targetDirPath)
+      } catch (e) {
+        if (hasTarget) await fsp.rename(backupPath, targetDirPath)
+        throw e
+      }
+      if (hasTarget) await fsp.rm(backupPath, { recursive: true, force: true })
+    } finally {
+      await fsp.rm(stagingPath, { recursive: true, force: true })
+    }
+  })
+}
+
+/**
+ * Replace a file or symlink with the one created by `create` at a temporary path next to it,
+ * so the target is never left partially written.
+ *
+ * @param targetPath path to replace
+ * @param create function that creates the new file at the given path
+ */
+export async function replaceFile(targetPath: string, create: (tempPath: string) => Promise<void>) {
+  const fsp = await importActualFS()
+  const tempPath = getSiblingPath(targetPath, 'tmp')
+  try {
+    await create(tempPath)
+    await fsp.rename(tempPath, targetPath)
+  } catch (e) {
+    await fsp.rm(tempPath, { force: true })
+    throw e
+  }
+}
+
+/**
+ * Run `fn` while holding a lock on a directory, so concurrent workers that write the same
+ * directory are serialized. The lock is a file next to the directory, holding the process id
+ * and a random id. Locks left behind by processes that are no longer running are taken over,
+ * and so is whatever those processes left half written, see {@link recoverLockedPath}.
+ *
+ * @param dirPath directory to lock
+ * @param fn function to run while holding the lock
+ */
+export async function withDirLock<T>(dirPath: string, fn: () => Promise<T>): Promise<T> {
+  const fsp = await importActualFS()
+  const lockPath = path.join(path.dirname(dirPath), `.${path.basename(dirPath)}.lock`)
+  const lockId = getUniqueId()
+  await fsp.mkdir(path.dirname(lockPath), { recursive: true })
+
+  for (;;) {
+    try {
+      await fsp.writeFile(lockPath, lockId, { flag: 'wx' })
+      break
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e
+    }
+    const owner = await fsp.readFile(lockPath, 'utf8').catch(() => '')
+    if (!owner || isProcessRunning(parseInt(owner, 10)) || !(await takeOverLock(lockPath, owner))) {
+      await setTimeout(LOCK_RETRY_DELAY)
+    }
+  }
+
+  try {
+    await recoverLockedPath(dirPath)
+    return await fn()
+  } finally {
+    await fsp.rm(lockPath, { force: true })
+  }
+}
+
+/**
+ * Clean up after workers that crashed while holding the lock on `targetPath`: remove their
+ * staging directories and temporary files, and restore a directory they moved out of the way
+ * in {@link replaceDir} but didn't replace.
+ */
+async function recoverLockedPath(targetPath: string) {
+  const fsp = await importActualFS()
+  const parentPath = path.dirname(targetPath)
+  const prefix = `.${path.basename(targetPath)}.`
+  const siblings = (await fsp.readdir(parentPath)).filter((name) => name.startsWith(prefix))
+  await Promise.all(
+    siblings
+      .filter((name) => name.startsWith(`${prefix}tmp-`))
+      .map((name) => fsp.rm(path.join(parentPath, name), { recursive: true, force: true })),
+  )
+
+  const backups = siblings.filter((name) => name.startsWith(`${prefix}old-`))
+  const hasTarget = await fsp.lstat(targetPath).then(
+    () => true,
+    () => false,
+  )
+  if (!hasTarget && backups.length) {
+    await fsp.rename(path.join(parentPath, backups.pop()!), targetPath)
+  }
+  await Promise.all(
+    backups.map((name) => fsp.rm(path.join(parentPath, name), { recursive: true, force: true })),
+  )
+
+  await removeTempFiles(targetPath)
+}
+
+// remove the temporary files of `replaceFile()` inside a directory and its subdirectories
+async function removeTempFiles(dirPath: string) {
+  const fsp = await importActualFS()
+  // not a directory, or doesn't exist yet
+  const entries = await fsp.readdir(dirPath, { withFileTypes: true }).catch(() => [])
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name)
+    if (TEMP_FILE_RE.test(entry.name)) {
+      await fsp.rm(entryPath, { recursive: true, force: true })
+    } else if (entry.isDirectory()) {
+      await removeTempFiles(entryPath)
+    }
+  }
+}
+
+/**
+ * Remove a stale lock held by `owner`. Other workers may take it over at the same time, so
+ * they first create a marker for that owner, which only one of them can do. The lock is only
+ * removed by the worker holding the marker, and only if it still belongs to `owner`, so a lock
+ * acquired in the meantime is never removed.
+ *
+ * @returns whether the stale lock was removed
+ */
+async function takeOverLock(lockPath: string, owner: string) {
+  const fsp = await importActualFS()
+  const ownerHash = createHash('sha1').update(owner).digest('hex').slice(0, 8)
+  const markerPath = `${lockPath}.takeover-${ownerHash}`
+  try {
+    await fsp.writeFile(markerPath, getUniqueId(), { flag: 'wx' })
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e
+    // the worker taking it over crashed before removing the marker
+    const taker = await fsp.readFile(markerPath, 'utf8').catch(() => '')
+    if (taker && !isProcessRunning(parseInt(taker, 10))) {
+      await fsp.rm(markerPath, { force: true })
+    }
+    return false
+  }
+
+  try {
+    if ((await fsp.readFile(lockPath, 'utf8').catch(() => '')) !== owner) return false
+    await fsp.rm(lockPath, { force: true })
+    return true
+  } finally {
+    await fsp.rm(markerPath, { force: true })
+  }
+}
+
+function getSiblingPath(targetPath: string, suffix: string) {
+  return path.join(
+    path.dirname(targetPath),
+    `.${path.basename(targetPath)}.${suffix}-${getUniqueId()}`,
+  )
+}
+
+// process id followed by random hex digits
+function getUniqueId() {
+  return `${process.pid}-${randomBytes(4).toString('hex')}`
+}
+
+function isProcessRunning(pid: number) {
+  if (!Number.isInteger(pid) || pid <= 0) return false
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (e) {
+    // the process exists but belongs to another user
+    return (e as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
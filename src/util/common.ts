@@ -1,3 +1,4 @@
+import path from 'node:path'
 import { vi, expect } from 'vitest'
 
 /**
@@ -10,10 +11,26 @@ export async function importActualFS() {
   return vi.importActual<typeof import('fs/promises')>('fs/promises')
 }
 
+/**
+ * Check whether `child` is a path strictly inside the `parent` directory.
+ */
+export function isPathInside(parent: string, child: string) {
+  const relative = path.relative(parent, child)
+  return !!relative && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative)
+}
+
 export function isPlainObject(value: unknown): value is Record<string, any> {
   return Object.prototype.toString.call(value) === '[object Object]'
 }
 
+export interface AsymmetricMatcherLike {
+  asymmetricMatch(other: unknown): boolean
+}
+
+export function isAsymmetricMatcher(value: unknown): value is AsymmetricMatcherLike {
+  return value != null && typeof (value as AsymmetricMatcherLike).asymmetricMatch === 'function'
+}
+
 type MatchersObject = Parameters<(typeof expect)['extend']>[0]
 
 /**
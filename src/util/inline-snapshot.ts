@@ -0,0 +1,123 @@
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { SnapshotState } from './snapshot.js'
+
+type SnapshotEnvironment = SnapshotState['environment']
+
+// frames of vitest and chai internals between the matcher and the test code
+const INTERNAL_FRAME_RE = /[\\/]node_modules[\\/](?:@vitest|vitest|chai)[\\/]|\(node:|at node:/
+
+// name of vitest's own matcher, the only one its inline snapshot writer looks for
+const INLINE_MATCHER_NAME = 'toMatchInlineSnapshot'
+
+/**
+ * Create the error that vitest's `SnapshotState.match()` reads the location of an inline
+ * snapshot from. Vitest takes the frame two below the `__INLINE_SNAPSHOT__` frame of its
+ * own matchers, so the frames of the matcher and `expect.extend` are replaced by such frames.
+ * Must be called before the matcher awaits anything, or the stack trace is lost.
+ *
+ * @param matcher the matcher function, used to omit the frames above it
+ */
+export function createInlineSnapshotError(matcher: Function) {
+  const error = new Error('snapshot')
+  Error.captureStackTrace(error, matcher)
+
+  const frames = (error.stack ?? '').split('\n').slice(1)
+  const frame = frames.find((line) => !INTERNAL_FRAME_RE.test(line))
+  const match = frame?.match(/\(?([^()\s]+):(\d+):(\d+)\)?$/)
+  if (!match) {
+    return null
+  }
+
+  const [location, file, line, column] = match
+  const at = location.replace(/^\(|\)$/g, '')
+  error.stack = [
+    'Error: snapshot',
+    `    at __INLINE_SNAPSHOT__ (${at})`,
+    `    at ${matcher.name} (${at})`,
+    frame,
+  ].join('\n')
+  return {
+    error,
+    file: path.resolve(file.startsWith('file://') ? fileURLToPath(file) : file),
+    line: Number(line),
+    column: Number(column),
+  }
+}
+
+// test files that contain inline snapshots of custom matchers, by matcher name
+const inlineMatcherFiles = new WeakMap<SnapshotEnvironment, Map<string, Set<string>>>()
+
+/**
+ * Let vitest write the inline snapshots of a custom matcher into a test file, together with
+ * its own. Its writer only finds `toMatchInlineSnapshot(` calls, so while the file is being
+ * rewritten the matcher name is swapped for that name padded with hair spaces to the same
+ * length, which keeps the offsets of the call sites intact.
+ *
+ * @param snapshotState snapshot state of the current test file
+ * @param matcher name of the matcher, at least as long as `toMatchInlineSnapshot`
+ * @param site location of the matcher call, see {@link createInlineSnapshotError}
+ */
+export function addInlineSnapshotMatcher(
+  snapshotState: SnapshotState,
+  matcher: string,
+  site: { file: string; line: number; column: number },
+) {
+  const { environment } = snapshotState
+  const { file } = environment.processStackTrace?.({ method: '', ...site }) ?? site
+  let matchers = inlineMatcherFiles.get(environment)
+  if (!matchers) {
+    matchers = new Map()
+    inlineMatcherFiles.set(environment, matchers)
+    patchSnapshotEnvironment(environment, matchers)
+  }
+  if (!matchers.has(matcher)) {
+    matchers.set(matcher, new Set())
+  }
+  matchers.get(matcher)!.add(file)
+}
+
+function patchSnapshotEnvironment(
+  environment: SnapshotEnvironment,
+  matchers: Map<string, Set<string>>,
+) {
+  const { readSnapshotFile, saveSnapshotFile } = environment
+  const placeholder = (matcher: string) =>
+    INLINE_MATCHER_NAME + '\u200a'.repeat(matcher.length - INLINE_MATCHER_NAME.length)
+
+  environment.readSnapshotFile = async (filepath) => {
+    let code = await readSnapshotFile.call(environment, filepath)
+    for (const [matcher, files] of matchers) {
+      if (code != null && files.has(filepath)) {
+        code = code.replaceAll(matcher, placeholder(matcher))
+      }
+    }
+    return code
+  }
+  environment.saveSnapshotFile = async (filepath, snapshot) => {
+    for (const [matcher, files] of matchers) {
+      if (files.has(filepath)) {
+        snapshot = snapshot.replaceAll(placeholder(matcher), matcher)
+      }
+    }
+    return saveSnapshotFile.call(environment, filepath, snapshot)
+  }
+}
+
+/**
+ * Remove the common indentation added when the snapshot was written into the test file.
+ */
+export function stripInlineSnapshotIndentation(snapshot: string) {
+  const lines = snapshot.split('\n')
+  if (lines.length <= 2 || lines[0].trim() !== '' || lines[lines.length - 1].trim() !== '') {
+    return snapshot
+  }
+
+  const indentation = lines[1].match(/^\s*/)![0]
+  const body = lines.slice(1, -1)
+  if (body.some((line) => line !== '' && !line.startsWith(indentation))) {
+    return snapshot
+  }
+
+  return body.map((line) => line.slice(indentation.length)).join('\n')
+}
@@ -0,0 +1,139 @@
+import path from 'node:path'
+import { Volume } from 'memfs'
+import {
+  fromBinarySnapshotSync,
+  fromJsonSnapshotSync,
+  fromSnapshotSync,
+  toBinarySnapshotSync,
+  toJsonSnapshotSync,
+  type JsonUint8Array,
+  type SnapshotNode,
+  type SnapshotOptions,
+} from 'memfs/lib/snapshot/index.js'
+import { importActualFS } from './common.js'
+import { replaceFile, withDirLock } from './atomic-dir.js'
+import { createNormalizer } from './volume-normalize.js'
+import {
+  mapToVolume,
+  volumeToMap,
+  type ReadDirToMapOptions,
+  type VolumeMap,
+  type WriteVolumeToDirOptions,
+} from './volume.js'
+
+export type { SnapshotNode }
+
+// encodings of memfs snapshots, as written by `toJsonSnapshotSync` and `toBinarySnapshotSync`
+export type MemfsSnapshotEncoding = 'json' | 'cbor'
+
+// encoded snapshots as typed by memfs, branded with their encoding
+type JsonSnapshot = JsonUint8Array<SnapshotNode>
+type CborSnapshot = Parameters<typeof fromBinarySnapshotSync>[0]
+
+/**
+ * Check whether a value is a memfs `SnapshotNode` tree or an encoded snapshot.
+ */
+export function isMemfsSnapshot(value: unknown): value is SnapshotNode | Uint8Array {
+  return (
+    value instanceof Uint8Array ||
+    (Array.isArray(value) && typeof value[0] === 'number' && value[0] >= 0 && value[0] <= 2)
+  )
+}
+
+/**
+ * Create a volume from a memfs `SnapshotNode` tree, or a JSON or CBOR encoded snapshot.
+ * The encoding is detected from the contents.
+ *
+ * @param snapshot snapshot to restore
+ * @param dirPath directory to restore the snapshot into
+ */
+export function memfsSnapshotToVolume(snapshot: SnapshotNode | Uint8Array, dirPath = '/') {
+  const volume = new Volume()
+  const options: SnapshotOptions = { fs: volume, path: dirPath }
+  if (!(snapshot instanceof Uint8Array)) {
+    fromSnapshotSync(snapshot, options)
+  } else if (isJSON(snapshot)) {
+    fromJsonSnapshotSync(snapshot as JsonSnapshot, options)
+  } else {
+    fromBinarySnapshotSync(snapshot as CborSnapshot, options)
+  }
+  return volume
+}
+
+export interface WriteVolumeToMemfsSnapshotOptions
+  extends Omit<WriteVolumeToDirOptions, 'clear' | 'concurrency' | 'emptyDirMarkers' | 'meta'> {
+  encoding: MemfsSnapshotEncoding
+}
+
+/**
+ * Write a volume as an encoded memfs snapshot file, which stores no metadata.
+ * The file is only rewritten (atomically) when its contents change.
+ *
+ * @param volume volume to write
+ * @param filePath path of the snapshot file
+ * @param options extra options
+ * @returns whether the file changed
+ */
+export async function writeVolumeToMemfsSnapshot(
+  volume: Volume,
+  filePath: string,
+  options: WriteVolumeToMemfsSnapshotOptions,
+) {
+  const fsp = await importActualFS()
+  const { encoding, prefix, withData = true, normalize, include, exclude } = options
+  const realPrefix = (prefix ? path.posix.resolve('/', prefix) : '') + '/'
+  const map = volumeToMap(volume, { prefix: realPrefix, withData, include, exclude })
+  const normalizer = withData ? createNormalizer(normalize, prefix) : null
+
+  // entries relative to the prefix, in the form they are read back
+  const snapshotMap: VolumeMap = Object.create(null)
+  for (const abs of Object.keys(map).sort()) {
+    const entry = map[abs]
+    const key = `/${abs.slice(realPrefix.length)}`
+    snapshotMap[key] =
+      entry.kind === 'file' && normalizer ? { ...entry, data: normalizer(abs, entry.data) } : entry
+  }
+  const snapshotOptions: SnapshotOptions = { fs: mapToVolume(snapshotMap), path: '/' }
+  const data = Buffer.from(
+    encoding === 'json'
+      ? toJsonSnapshotSync(snapshotOptions)
+      : toBinarySnapshotSync(snapshotOptions),
+  )
+
+  return withDirLock(filePath, async () => {
+    const prevData = await fsp.readFile(filePath).catch(() => null)
+    if (prevData?.equals(data)) {
+      return false
+    }
+    await fsp.mkdir(path.dirname(filePath), { recursive: true })
+    await replaceFile(filePath, (tempPath) => fsp.writeFile(tempPath, data))
+    return true
+  })
+}
+
+/**
+ * Read an encoded memfs snapshot file into a volume map, like `readDirToMap`.
+ *
+ * @param filePath path of the snapshot file
+ * @param options extra options
+ */
+export async function readMemfsSnapshotToMap(
+  filePath: string,
+  options?: Omit<ReadDirToMapOptions, 'concurrency' | 'withMeta'>,
+) {
+  const fsp = await importActualFS()
+  const { prefix = '', ...mapOptions } = options ?? {}
+  const dirPath = path.posix.join('/', prefix)
+  const volume = memfsSnapshotToVolume(await fsp.readFile(filePath), dirPath)
+  return volumeToMap(volume, { ...mapOptions, prefix: dirPath })
+}
+
+// JSON snapshots are arrays, CBOR ones start with an array header byte
+function isJSON(data: Uint8Array) {
+  for (const byte of data) {
+    // skip leading whitespace
+    if (byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d) continue
+    return byte === 0x5b
+  }
+  return false
+}
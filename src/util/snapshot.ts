@@ -0,0 +1,287 @@
+import path from 'node:path'
+import { createHash } from 'node:crypto'
+import type { ExpectStatic, RunnerTask, RunnerTestSuite, SnapshotUpdateState } from 'vitest'
+import { importActualFS, isPathInside } from './common.js'
+import { BLOBS_DIRNAME, removeUnusedBlobs } from './volume-manifest.js'
+
+export type SnapshotState = ReturnType<ExpectStatic['getState']>['snapshotState']
+
+// private fields of vitest's `SnapshotState` that have no public accessor
+interface SnapshotStateInternals {
+  _updateSnapshot: SnapshotUpdateState
+  _uncheckedKeys: Set<string>
+}
+
+/**
+ * Get the snapshot update mode of the current run.
+ */
+export function getSnapshotUpdateState(snapshotState: SnapshotState): SnapshotUpdateState {
+  return (snapshotState as unknown as SnapshotStateInternals)._updateSnapshot
+}
+
+/**
+ * Create a function that records the result of a snapshot assertion in the snapshot state,
+ * so it is reported in the test summary. The returned function passes `passed` through.
+ *
+ * @param snapshotState snapshot state of the current test file
+ * @param testId id used for snapshot counters
+ * @param hasSnapshot whether the snapshot existed before the assertion
+ * @param updateSnapshot snapshot update mode, defaults to the mode of the current run
+ */
+export function createSnapshotStateUpdater(
+  snapshotState: SnapshotState,
+  testId: string,
+  hasSnapshot: boolean,
+  updateSnapshot = getSnapshotUpdateState(snapshotState),
+) {
+  return (passed: boolean) => {
+    if (
+      (hasSnapshot && updateSnapshot === 'all') ||
+      (!hasSnapshot && (updateSnapshot === 'new' || updateSnapshot === 'all'))
+    ) {
+      if (updateSnapshot === 'all') {
+        if (!passed) {
+          if (hasSnapshot) {
+            snapshotState.unmatched.increment(testId)
+          }
+        } else {
+          hasSnapshot //
+            ? snapshotState.updated.increment(testId)
+            : snapshotState.added.increment(testId)
+        }
+      } else {
+        snapshotState.added.increment(testId)
+      }
+    } else {
+      passed //
+        ? snapshotState.matched.increment(testId)
+        : snapshotState.unmatched.increment(testId)
+    }
+    return passed
+  }
+}
+
+/**
+ * Get the key used to report a snapshot directory in the snapshot summary. Vitest drops
+ * obsolete keys containing ` > ` or ending in a number whenever a test is skipped, so the
+ * parts of the key are joined with `›` instead, and the directory name is quoted.
+ */
+export function getSnapshotDirKey(testName: string, snapshotDir: string) {
+  const name = testName.replaceAll(' > ', ' › ')
+  return `${name} › volume snapshot \`${snapshotDir.replaceAll(' > ', ' › ')}\``
+}
+
+/**
+ * Get the key of a volume stored in the `.snap` file. Unlike {@link getSnapshotDirKey}, it
+ * follows vitest's own keys, so vitest keeps the entries of skipped tests.
+ */
+export function getSnapshotEntryKey(testName: string, snapshotName: string) {
+  return `${testName} > volume snapshots > ${snapshotName}`
+}
+
+// number of unnamed snapshot directories used so far by each test
+const snapshotDirCounters = new WeakMap<SnapshotState, Map<string, number>>()
+
+/**
+ * Get the next snapshot directory name for a test that didn't name it, derived from
+ * the test name and a per-test counter (`name-1`, `name-2`, ...). Test names that are
+ * not valid directory names get a short hash of the full name, so they stay unique.
+ *
+ * @param snapshotState snapshot state of the current test file
+ * @param testName full name of the test
+ */
+export function getNextSnapshotDirName(snapshotState: SnapshotState, testName: string) {
+  let counters = snapshotDirCounters.get(snapshotState)
+  if (!counters) {
+    counters = new Map()
+    snapshotDirCounters.set(snapshotState, counters)
+  }
+  const count = (counters.get(testName) ?? 0) + 1
+  counters.set(testName, count)
+  const name = testName.replace(/[^\w.-]+/g, '-').replace(/^[-.]+|-+$/g, '')
+  if (name && name === testName) {
+    return `${name}-${count}`
+  }
+  const hash = createHash('sha256').update(testName).digest('hex').slice(0, 8)
+  return `${name || 'snapshot'}-${hash}-${count}`
+}
+
+/**
+ * Reset the counter of {@link getNextSnapshotDirName}, so a retried test gets the same names.
+ */
+export function resetSnapshotDirNames(snapshotState: SnapshotState, testName: string) {
+  snapshotDirCounters.get(snapshotState)?.delete(testName)
+}
+
+/**
+ * Get the directory holding the snapshot directories of a test file,
+ * named after its `.snap` file (`__snapshots__/<file>/`).
+ */
+export function getSnapshotDirRoot(snapshotState: SnapshotState) {
+  return snapshotState.snapshotPath.replace(/\.snap$/, '')
+}
+
+/**
+ * Resolve the path of a snapshot directory of the current test file.
+ *
+ * Snapshot directories used to live directly next to the `.snap` file. Those are still
+ * read from there, and moved into the test file's directory when updating snapshots, unless
+ * other test files in the same folder may use them too.
+ *
+ * @param snapshotState snapshot state of the current test file
+ * @param snapshotDir snapshot directory name
+ */
+export async function resolveSnapshotDir(snapshotState: SnapshotState, snapshotDir: string) {
+  const fsp = await importActualFS()
+  const snapshotDirPath = path.join(getSnapshotDirRoot(snapshotState), snapshotDir)
+  const legacyPath = path.join(path.dirname(snapshotState.snapshotPath), snapshotDir)
+  const isDir = (p: string) =>
+    fsp
+      .lstat(p)
+      .then((s) => s.isDirectory())
+      .catch(() => false)
+
+  if ((await isDir(snapshotDirPath)) || !(await isDir(legacyPath))) {
+    return snapshotDirPath
+  }
+  if (getSnapshotUpdateState(snapshotState) !== 'all') {
+    return legacyPath
+  }
+
+  // legacy directories were shared by all test files of a folder
+  const snapshotFile = path.basename(snapshotState.snapshotPath)
+  const otherFiles = (await fsp.readdir(path.dirname(legacyPath))).filter(
+    (name) =>
+      /\.(snap|volumes\.json)$/.test(name) &&
+      name !== snapshotFile &&
+      name !== path.basename(getSnapshotDirIndexPath(snapshotState)),
+  )
+  if (otherFiles.length > 0) {
+    throw new Error(
+      `Snapshot directory \`${snapshotDir}\` found at \`${legacyPath}\`, where other test files ` +
+        `may use it too. Move it to \`${snapshotDirPath}\` if it belongs to this test file`,
+    )
+  }
+
+  await fsp.mkdir(path.dirname(snapshotDirPath), { recursive: true })
+  await fsp.rename(legacyPath, snapshotDirPath)
+  return snapshotDirPath
+}
+
+/**
+ * Get the path of the index that maps the snapshot directories of a test file to their tests.
+ */
+export function getSnapshotDirIndexPath(snapshotState: SnapshotState) {
+  return snapshotState.snapshotPath.replace(/(\.snap)?$/, '.volumes.json')
+}
+
+// snapshot directories referenced during the current run, keyed by directory name
+const referencedSnapshotDirs = new WeakMap<SnapshotState, Map<string, string>>()
+
+/**
+ * Record that a test referenced a snapshot directory, so it is not reported as obsolete.
+ * Throws if another test already referenced the same directory in this run.
+ *
+ * @param snapshotState snapshot state of the current test file
+ * @param snapshotDir snapshot directory name
+ * @param testName full name of the test
+ */
+export function trackSnapshotDir(
+  snapshotState: SnapshotState,
+  snapshotDir: string,
+  testName: string,
+) {
+  let dirs = referencedSnapshotDirs.get(snapshotState)
+  if (!dirs) {
+    dirs = new Map()
+    referencedSnapshotDirs.set(snapshotState, dirs)
+  }
+  const owner = dirs.get(snapshotDir)
+  if (owner != null && owner !== testName) {
+    throw new Error(
+      `Snapshot directory \`${snapshotDir}\` is already used by test \`${owner}\`, ` +
+        'each test must use its own snapshot directories',
+    )
+  }
+  dirs.set(snapshotDir, testName)
+}
+
+/**
+ * Report the snapshot directories of a test file that no test referenced as obsolete,
+ * and remove them when updating snapshots. Must be called after all tests of the file ran.
+ *
+ * Directories of tests that were skipped or failed are kept, since they may still be used.
+ *
+ * @param snapshotState snapshot state of the test file
+ * @param file the test file suite
+ */
+export async function finishSnapshotDirs(snapshotState: SnapshotState, file: RunnerTestSuite) {
+  const fsp = await importActualFS()
+  const updateSnapshot = getSnapshotUpdateState(snapshotState)
+  const indexPath = getSnapshotDirIndexPath(snapshotState)
+  const referenced = referencedSnapshotDirs.get(snapshotState) ?? new Map<string, string>()
+  const index: Record<string, string> = await fsp
+    .readFile(indexPath, 'utf8')
+    .then((data) => JSON.parse(data))
+    .catch(() => ({}))
+
+  const notPassed = new Set(collectTestNames(file, (test) => test.result?.state !== 'pass'))
+  const nextIndex = new Map(referenced)
+  for (const [snapshotDir, testName] of Object.entries(index)) {
+    if (referenced.has(snapshotDir)) {
+      continue
+    }
+    if (notPassed.has(testName)) {
+      nextIndex.set(snapshotDir, testName)
+      continue
+    }
+
+    // reported by vitest as obsolete, or as removed when updating
+    const { _uncheckedKeys } = snapshotState as unknown as SnapshotStateInternals
+    _uncheckedKeys.add(getSnapshotDirKey(testName, snapshotDir))
+    if (updateSnapshot === 'all') {
+      const snapshotRoot = getSnapshotDirRoot(snapshotState)
+      const snapshotDirPath = path.join(snapshotRoot, snapshotDir)
+      // never trust the index with paths outside the snapshot folder
+      if (isPathInside(snapshotRoot, snapshotDirPath)) {
+        await fsp.rm(snapshotDirPath, { recursive: true, force: true })
+      }
+    } else {
+      nextIndex.set(snapshotDir, testName)
+    }
+  }
+
+  if (updateSnapshot === 'none') {
+    return
+  }
+  if (updateSnapshot === 'all') {
+    const snapshotRoot = getSnapshotDirRoot(snapshotState)
+    await removeUnusedBlobs(snapshotRoot, path.join(snapshotRoot, BLOBS_DIRNAME))
+  }
+
+  const entries = Array.from(nextIndex).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  if (entries.length === 0) {
+    await fsp.rm(indexPath, { force: true })
+  } else if (
+    entries.length !== Object.keys(index).length ||
+    entries.some(([snapshotDir, testName]) => index[snapshotDir] !== testName)
+  ) {
+    await fsp.mkdir(path.dirname(indexPath), { recursive: true })
+    await fsp.writeFile(indexPath, JSON.stringify(Object.fromEntries(entries), null, 2) + '\n')
+  }
+}
+
+// full names of the tests in a suite that satisfy `filter`, as in `currentTestName`
+function collectTestNames(
+  suite: RunnerTestSuite,
+  filter: (test: RunnerTask) => boolean,
+  parents: string[] = [],
+): string[] {
+  return suite.tasks.flatMap((task) => {
+    const names = [...parents, task.name]
+    if (task.type === 'suite') {
+      return collectTestNames(task, filter, names)
+    }
+    return filter(task) ? [names.join(' > ')] : []
+  })
+}
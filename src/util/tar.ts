@@ -0,0 +1,233 @@
+export interface TarEntry {
+  // path relative to the archive root, `/`-separated
+  path: string
+  type: 'file' | 'symlink' | 'dir'
+  data?: Buffer
+  // symlink target
+  target?: string
+  mode?: number
+  uid?: number
+  gid?: number
+}
+
+const BLOCK_SIZE = 512
+
+// typeflags of the entries we read and write
+const TYPE_FILE = '0'
+const TYPE_SYMLINK = '2'
+const TYPE_DIR = '5'
+const TYPE_PAX = 'x'
+const TYPE_PAX_GLOBAL = 'g'
+const TYPE_GNU_LONG_NAME = 'L'
+const TYPE_GNU_LONG_LINK = 'K'
+
+const DEFAULT_MODES: Record<TarEntry['type'], number> = { file: 0o644, symlink: 0o777, dir: 0o755 }
+
+/**
+ * Pack entries into a POSIX (ustar) tar archive. Paths and symlink targets that don't fit
+ * in the header are stored in pax extended headers. Timestamps are always zero, so packing
+ * the same entries always produces the same archive.
+ *
+ * @param entries entries to pack, in order
+ */
+export function packTar(entries: TarEntry[]) {
+  const blocks: Buffer[] = []
+
+  for (const entry of entries) {
+    const name = entry.type === 'dir' ? `${entry.path}/` : entry.path
+    const linkname = entry.target ?? ''
+    const data = entry.type === 'file' ? (entry.data ?? Buffer.alloc(0)) : Buffer.alloc(0)
+
+    const pax: Record<string, string> = {}
+    if (Buffer.byteLength(name) > 100) pax.path = name
+    if (Buffer.byteLength(linkname) > 100) pax.linkpath = linkname
+    if (Object.keys(pax).length > 0) {
+      const paxData = encodePaxRecords(pax)
+      blocks.push(
+        createHeader({ name: 'PaxHeader', type: TYPE_PAX, size: paxData.length }),
+        ...padData(paxData),
+      )
+    }
+
+    const type =
+      entry.type === 'file' ? TYPE_FILE : entry.type === 'symlink' ? TYPE_SYMLINK : TYPE_DIR
+    blocks.push(
+      createHeader({
+        name,
+        type,
+        size: data.length,
+        linkname,
+        mode: entry.mode ?? DEFAULT_MODES[entry.type],
+        uid: entry.uid,
+        gid: entry.gid,
+      }),
+      ...padData(data),
+    )
+  }
+
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2))
+  return Buffer.concat(blocks)
+}
+
+/**
+ * Unpack the files, symlinks and directories of a tar archive, in archive order.
+ * Supports ustar, pax and GNU long name headers, other entry types are skipped.
+ *
+ * @param buffer archive contents
+ */
+export function unpackTar(buffer: Buffer) {
+  const entries: TarEntry[] = []
+  let offset = 0
+  let pax: Record<string, string> = {}
+
+  while (offset + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + BLOCK_SIZE)
+    offset += BLOCK_SIZE
+    if (header.every((byte) => byte === 0)) break
+    if (readOctal(header, 148, 8) !== computeChecksum(header)) {
+      throw new Error(`Invalid tar header checksum at offset ${offset - BLOCK_SIZE}`)
+    }
+
+    const type = String.fromCharCode(header[156] || 0x30)
+    const size = readOctal(header, 124, 12)
+    const data = buffer.subarray(offset, offset + size)
+    offset += Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+
+    if (type === TYPE_PAX) {
+      pax = { ...pax, ...decodePaxRecords(data) }
+      continue
+    }
+    if (type === TYPE_GNU_LONG_NAME || type === TYPE_GNU_LONG_LINK) {
+      pax[type === TYPE_GNU_LONG_NAME ? 'path' : 'linkpath'] = readString(data, 0, data.length)
+      continue
+    }
+    const { path: paxPath, linkpath } = pax
+    pax = {}
+    if (type === TYPE_PAX_GLOBAL) continue
+
+    const prefix = readString(header, 345, 155)
+    const name = paxPath ?? (prefix ? `${prefix}/` : '') + readString(header, 0, 100)
+    const path = name.replace(/^(\.\/)+/, '').replace(/\/+$/, '')
+    if (!path || path === '.') continue
+
+    const entry = {
+      path,
+      mode: readOctal(header, 100, 8),
+      uid: readOctal(header, 108, 8),
+      gid: readOctal(header, 116, 8),
+    }
+    if (type === TYPE_FILE || type === '\0' || type === '7') {
+      entries.push({ ...entry, type: 'file', data: Buffer.from(data) })
+    } else if (type === TYPE_SYMLINK) {
+      entries.push({ ...entry, type: 'symlink', target: linkpath ?? readString(header, 157, 100) })
+    } else if (type === TYPE_DIR) {
+      entries.push({ ...entry, type: 'dir' })
+    }
+  }
+
+  return entries
+}
+
+interface TarHeader {
+  name: string
+  type: string
+  size: number
+  linkname?: string
+  mode?: number
+  uid?: number
+  gid?: number
+}
+
+function createHeader({ name, type, size, linkname = '', mode = 0o644, uid, gid }: TarHeader) {
+  const header = Buffer.alloc(BLOCK_SIZE)
+  // long paths are in a pax header, the truncated ones keep the header readable by older tools
+  header.write(name, 0, 100)
+  writeOctal(header, mode & 0o7777, 100, 8)
+  writeOctal(header, uid ?? 0, 108, 8)
+  writeOctal(header, gid ?? 0, 116, 8)
+  writeOctal(header, size, 124, 12)
+  writeOctal(header, 0, 136, 12)
+  header.write(type, 156)
+  header.write(linkname, 157, 100)
+  header.write('ustar\u000000', 257, 'latin1')
+  writeOctal(header, computeChecksum(header), 148, 8)
+  return header
+}
+
+function computeChecksum(header: Buffer) {
+  let sum = 0
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // the checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]
+  }
+  return sum
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  if (value < 8 ** (length - 1)) {
+    header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'latin1')
+    return
+  }
+  // GNU base-256 encoding, big-endian after the marker bit, like `readOctal` expects
+  for (let i = length - 1; i > 0; i--) {
+    header[offset + i] = value % 256
+    value = Math.floor(value / 256)
+  }
+  header[offset] = 0x80
+}
+
+function readOctal(header: Buffer, offset: number, length: number) {
+  // GNU base-256 encoding for values that don't fit in octal
+  if (header[offset] & 0x80) {
+    let value = header[offset] & 0x7f
+    for (let i = 1; i < length; i++) value = value * 256 + header[offset + i]
+    return value
+  }
+  const text = header
+    .toString('latin1', offset, offset + length)
+    .replace(/\0.*$/s, '')
+    .trim()
+  return text ? parseInt(text, 8) : 0
+}
+
+function readString(buffer: Buffer, offset: number, length: number) {
+  const end = buffer.indexOf(0, offset)
+  return buffer.toString(
+    'utf8',
+    offset,
+    end === -1 || end > offset + length ? offset + length : end,
+  )
+}
+
+function padData(data: Buffer) {
+  const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE
+  return padding ? [data, Buffer.alloc(padding)] : [data]
+}
+
+// pax records are `<length> <key>=<value>\n`, where the length includes itself
+function encodePaxRecords(records: Record<string, string>) {
+  let text = ''
+  for (const [key, value] of Object.entries(records)) {
+    const record = ` ${key}=${value}\n`
+    const recordLength = Buffer.byteLength(record)
+    let length = recordLength + String(recordLength).length
+    if (String(length).length !== String(recordLength).length) length++
+    text += `${length}${record}`
+  }
+  return Buffer.from(text)
+}
+
+function decodePaxRecords(data: Buffer) {
+  const records: Record<string, string> = {}
+  let offset = 0
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset)
+    const length = parseInt(data.toString('latin1', offset, space), 10)
+    if (space === -1 || !length) break
+    const record = data.toString('utf8', space + 1, offset + length - 1)
+    const eq = record.indexOf('=')
+    records[record.slice(0, eq)] = record.slice(eq + 1)
+    offset += length
+  }
+  return records
+}
@@ -0,0 +1,263 @@
+export interface TextDiffOptions {
+  // Number of unchanged lines to show around each change. Defaults to `3`.
+  contextLines?: number
+  // Line length above which single-line files are diffed word by word. Defaults to `200`.
+  wordDiffThreshold?: number
+}
+
+/**
+ * Create a unified diff between two text contents of the same file.
+ *
+ * @param path file path used in the diff header
+ * @param expected reference text
+ * @param received text under test
+ * @param options extra options
+ */
+export function createTextDiff(
+  path: string,
+  expected: string,
+  received: string,
+  options?: TextDiffOptions,
+) {
+  const { contextLines = 3, wordDiffThreshold = 200 } = options ?? {}
+  const header = `--- ${path} (expected)\n+++ ${path} (received)`
+  const expLines = splitLines(expected)
+  const actLines = splitLines(received)
+
+  if (
+    expLines.length === 1 &&
+    actLines.length === 1 &&
+    Math.max(expLines[0].length, actLines[0].length) > wordDiffThreshold
+  ) {
+    const expLine = expLines[0].replace(NO_EOL, '')
+    const actLine = actLines[0].replace(NO_EOL, '')
+    return `${header}\n${formatWordDiff(expLine, actLine, contextLines * 20)}`
+  }
+
+  return `${header}\n${formatLineDiff(expLines, actLines, contextLines)}`
+}
+
+// marks the last line of a text that doesn't end with a newline
+const NO_EOL = '\0'
+
+function splitLines(text: string) {
+  if (text === '') return []
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  } else {
+    lines[lines.length - 1] += NO_EOL
+  }
+  return lines
+}
+
+enum Op {
+  Equal = 0,
+  Delete = -1,
+  Insert = 1,
+}
+
+type Edit = [op: Op, value: string]
+
+function formatLineDiff(expLines: string[], actLines: string[], contextLines: number) {
+  const edits = diffSequences(expLines, actLines)
+  const changes: number[] = []
+  edits.forEach(([op], i) => op !== Op.Equal && changes.push(i))
+
+  // line numbers (1-based) of each edit in both texts
+  const expNums: number[] = []
+  const actNums: number[] = []
+  let expLine = 1
+  let actLine = 1
+  for (const [op] of edits) {
+    expNums.push(expLine)
+    actNums.push(actLine)
+    if (op !== Op.Insert) expLine++
+    if (op !== Op.Delete) actLine++
+  }
+
+  const hunks: string[] = []
+  let i = 0
+  while (i < changes.length) {
+    // hunks whose context lines would meet or overlap are merged
+    let last = i
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= contextLines * 2 + 1) {
+      last++
+    }
+
+    const start = Math.max(0, changes[i] - contextLines)
+    const end = Math.min(edits.length, changes[last] + contextLines + 1)
+    const lines: string[] = []
+    let expCount = 0
+    let actCount = 0
+    for (let j = start; j < end; j++) {
+      const [op, value] = edits[j]
+      const indicator = op === Op.Delete ? '-' : op === Op.Insert ? '+' : ' '
+      if (op !== Op.Insert) expCount++
+      if (op !== Op.Delete) actCount++
+      if (value.endsWith(NO_EOL)) {
+        lines.push(`${indicator}${value.slice(0, -1)}`, '\\ No newline at end of file')
+      } else {
+        lines.push(`${indicator}${value}`)
+      }
+    }
+
+    const range = (num: number, count: number) =>
+      count === 1 ? `${num}` : `${count === 0 ? num - 1 : num},${count}`
+    hunks.push(
+      `@@ -${range(expNums[start], expCount)} +${range(actNums[start], actCount)} @@`,
+      ...lines,
+    )
+    i = last + 1
+  }
+
+  return hunks.join('\n')
+}
+
+function formatWordDiff(expected: string, received: string, contextChars: number) {
+  const edits = mergeEdits(diffSequences(tokenize(expected), tokenize(received)))
+  const chunks: string[] = []
+  let chunk = ''
+
+  edits.forEach(([op, value], i) => {
+    if (op === Op.Delete) {
+      chunk += `[-${value}-]`
+      return
+    }
+    if (op === Op.Insert) {
+      chunk += `{+${value}+}`
+      return
+    }
+
+    // only keep some context around changes, long unchanged runs are elided
+    const hasPrev = i > 0
+    const hasNext = i < edits.length - 1
+    if (value.length <= (hasPrev ? contextChars : 0) + (hasNext ? contextChars : 0)) {
+      chunk += value
+      return
+    }
+    if (hasPrev) chunks.push(`${chunk}${value.slice(0, contextChars)}…`)
+    chunk = hasNext ? `…${value.slice(-contextChars)}` : ''
+  })
+  if (chunk) chunks.push(chunk)
+
+  return ['@@ -1 +1 @@', ...chunks].join('\n')
+}
+
+function mergeEdits(edits: Edit[]) {
+  const merged: Edit[] = []
+  for (const [op, value] of edits) {
+    const prev = merged[merged.length - 1]
+    if (prev && prev[0] === op) {
+      prev[1] += value
+    } else {
+      merged.push([op, value])
+    }
+  }
+  return merged
+}
+
+function tokenize(text: string) {
+  return text.match(/\w+|\s+|[^\w\s]/g) ?? []
+}
+
+// upper bound for edit distance before giving up on a minimal diff
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Diff two sequences using Myers' algorithm.
+ * Falls back to replacing the whole changed region when the sequences are too different.
+ */
+function diffSequences(a: string[], b: string[]): Edit[] {
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const edits: Edit[] = []
+  for (let i = 0; i < start; i++) edits.push([Op.Equal, a[i]])
+  edits.push(...diffMiddle(a.slice(start, endA), b.slice(start, endB)))
+  for (let i = endA; i < a.length; i++) edits.push([Op.Equal, a[i]])
+  return edits
+}
+
+function diffMiddle(a: string[], b: string[]): Edit[] {
+  const n = a.length
+  const m = b.length
+  const replaceAll = (): Edit[] => [
+    ...a.map((value): Edit => [Op.Delete, value]),
+    ...b.map((value): Edit => [Op.Insert, value]),
+  ]
+
+  if (n === 0 || m === 0) {
+    return replaceAll()
+  }
+
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // trace[d] holds the `v` window [-d, d] as it was before step d
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return replaceAll()
+    }
+
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace)
+      }
+    }
+  }
+
+  return replaceAll()
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Edit[] {
+  const edits: Edit[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : v[prevK + d]
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      edits.push([Op.Equal, a[x - 1]])
+      x--
+      y--
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push([Op.Insert, b[prevY]])
+      } else {
+        edits.push([Op.Delete, a[prevX]])
+      }
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return edits.reverse()
+}
@@ -0,0 +1,222 @@
+import path from 'node:path'
+import { promisify } from 'node:util'
+import zlib from 'node:zlib'
+import { Volume } from 'memfs'
+import { importActualFS } from './common.js'
+import { replaceFile, withDirLock } from './atomic-dir.js'
+import { createPathFilter, filterAcceptsPath } from './volume-entries.js'
+import { createNormalizer } from './volume-normalize.js'
+import { packTar, unpackTar, type TarEntry } from './tar.js'
+import { isZip, packZip, unpackZip } from './zip.js'
+import {
+  resolveMetaFields,
+  volumeToMap,
+  type ReadDirToMapOptions,
+  type VolumeMap,
+  type WriteVolumeToDirOptions,
+} from './volume.js'
+
+const gzip = promisify(zlib.gzip)
+const gunzip = promisify(zlib.gunzip)
+
+export type VolumeArchiveFormat = 'tar' | 'tar.gz' | 'zip'
+
+export interface VolumeToArchiveOptions
+  extends Omit<WriteVolumeToDirOptions, 'clear' | 'concurrency' | 'emptyDirMarkers'> {
+  // archive format, defaults to `tar`
+  format?: VolumeArchiveFormat
+}
+
+/**
+ * Pack a volume into an archive. Symlinks, empty directories and modes are kept,
+ * owners only when requested with the `meta` option (tar only).
+ *
+ * @param volume volume to pack
+ * @param options extra options
+ */
+export function volumeToArchive(volume: Volume, options?: VolumeToArchiveOptions) {
+  const { format = 'tar', ...entriesOptions } = options ?? {}
+  const entries = volumeToArchiveEntries(volume, entriesOptions)
+  if (format === 'zip') return packZip(entries)
+  const tar = packTar(entries)
+  return format === 'tar.gz' ? zlib.gzipSync(tar) : tar
+}
+
+export interface VolumeFromArchiveOptions {
+  // directory to unpack the archive into, defaults to the root
+  prefix?: string
+  // volume to unpack the archive into, defaults to a new volume
+  volume?: Volume
+}
+
+/**
+ * Unpack a tar, gzipped tar or zip archive into a volume. The format is detected
+ * from the contents. Symlinks, empty directories and modes are kept.
+ *
+ * @param buffer archive contents
+ * @param options extra options
+ */
+export function volumeFromArchive(buffer: Buffer | Uint8Array, options?: VolumeFromArchiveOptions) {
+  const { prefix = '/', volume = new Volume() } = options ?? {}
+  const data = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  const entries = isZip(data)
+    ? unpackZip(data)
+    : unpackTar(isGzip(data) ? zlib.gunzipSync(data) : data)
+  const root = path.posix.resolve('/', prefix)
+  volume.mkdirSync(root, { recursive: true })
+
+  for (const entry of entries) {
+    const target = path.posix.join(root, entry.path)
+    if (!isPathInArchiveRoot(root, target)) {
+      throw new Error(`Archive entry \`${entry.path}\` points outside of \`${root}\``)
+    }
+    if (entry.type === 'dir') {
+      volume.mkdirSync(target, { recursive: true })
+    } else {
+      volume.mkdirSync(path.posix.dirname(target), { recursive: true })
+      if (entry.type === 'file') {
+        volume.writeFileSync(target, entry.data!)
+      } else {
+        volume.symlinkSync(entry.target!, target)
+        continue
+      }
+    }
+    if (entry.mode != null) volume.chmodSync(target, entry.mode)
+  }
+
+  return volume
+}
+
+export interface WriteVolumeToArchiveOptions
+  extends Omit<WriteVolumeToDirOptions, 'clear' | 'concurrency' | 'emptyDirMarkers'> {}
+
+/**
+ * Write a volume into a tar archive, the archive counterpart of `writeVolumeToDir`.
+ * The archive is gzipped when its name ends with `.gz` or `.tgz`.
+ *
+ * Modes are always stored, owners only when requested with the `meta` option.
+ * The archive is only rewritten (atomically) when its contents change.
+ *
+ * @param volume volume to write
+ * @param archivePath path of the archive file
+ * @param options extra options
+ * @returns whether the archive changed
+ */
+export async function writeVolumeToArchive(
+  volume: Volume,
+  archivePath: string,
+  options?: WriteVolumeToArchiveOptions,
+) {
+  const fsp = await importActualFS()
+  const tar = packTar(volumeToArchiveEntries(volume, options))
+
+  return withDirLock(archivePath, async () => {
+    const prevTar = await fsp
+      .readFile(archivePath)
+      .then(maybeGunzip)
+      .catch(() => null)
+    if (prevTar?.equals(tar)) {
+      return false
+    }
+    const data = /\.(gz|tgz)$/.test(archivePath) ? await gzip(tar) : tar
+    await fsp.mkdir(path.dirname(archivePath), { recursive: true })
+    await replaceFile(archivePath, (tempPath) => fsp.writeFile(tempPath, data))
+    return true
+  })
+}
+
+/**
+ * Read a tar archive into a volume map, the archive counterpart of `readDirToMap`.
+ * Gzipped archives are detected by their contents.
+ *
+ * @param archivePath path of the archive file
+ * @param options extra options
+ */
+export async function readArchiveToMap(
+  archivePath: string,
+  options?: Omit<ReadDirToMapOptions, 'concurrency'>,
+) {
+  const fsp = await importActualFS()
+  const { prefix = '', withData = true, withMeta, include, exclude } = options ?? {}
+  const entries = unpackTar(await maybeGunzip(await fsp.readFile(archivePath)))
+  const map: VolumeMap = Object.create(null)
+  const filter = createPathFilter({ include, exclude, prefix })
+  const EMPTY_BUFFER = Buffer.alloc(0)
+
+  // archives may list every directory, only the empty ones are part of a volume map
+  const parentDirs = new Set<string>()
+  for (const entry of entries) {
+    for (let dir = path.posix.dirname(entry.path); dir !== '.'; dir = path.posix.dirname(dir)) {
+      parentDirs.add(dir)
+    }
+  }
+
+  if (entries.length === 0) {
+    const key = path.posix.join('/', prefix)
+    if (!filter || filter.accepts(key)) map[key] = { kind: 'empty-dir' }
+  }
+  for (const entry of entries) {
+    const key = path.posix.join('/', prefix, entry.path)
+    if (filter && !filterAcceptsPath(filter, key)) continue
+    const meta = withMeta ? { mode: entry.mode, uid: entry.uid, gid: entry.gid } : undefined
+
+    if (entry.type === 'file') {
+      map[key] = { kind: 'file', data: withData ? entry.data! : EMPTY_BUFFER, meta }
+    } else if (entry.type === 'symlink') {
+      map[key] = { kind: 'symlink', target: entry.target! }
+    } else if (!parentDirs.has(entry.path)) {
+      map[key] = { kind: 'empty-dir', meta }
+    }
+  }
+
+  return map
+}
+
+// archive entries of a volume sorted by path, relative to the prefix
+function volumeToArchiveEntries(volume: Volume, options?: WriteVolumeToArchiveOptions) {
+  const { prefix, withData = true, normalize, include, exclude, meta } = options ?? {}
+  const realPrefix = (prefix ? path.posix.resolve('/', prefix) : '') + '/'
+  const metaFields = resolveMetaFields(meta)
+  const map = volumeToMap(volume, {
+    prefix: realPrefix,
+    withData,
+    withMeta: true,
+    include,
+    exclude,
+  })
+  const normalizer = withData ? createNormalizer(normalize, prefix) : null
+  const entries: TarEntry[] = []
+
+  for (const abs of Object.keys(map).sort()) {
+    const entry = map[abs]
+    const archiveEntry: TarEntry = {
+      path: abs.slice(realPrefix.length),
+      type: entry.kind === 'empty-dir' ? 'dir' : entry.kind,
+      mode: entry.meta?.mode,
+      uid: metaFields.includes('uid') ? entry.meta?.uid : undefined,
+      gid: metaFields.includes('gid') ? entry.meta?.gid : undefined,
+    }
+    if (entry.kind === 'file') {
+      archiveEntry.data = normalizer ? normalizer(abs, entry.data) : entry.data
+    } else if (entry.kind === 'symlink') {
+      archiveEntry.target = entry.target
+    }
+    // the root of an empty volume has no path in the archive
+    if (archiveEntry.path) entries.push(archiveEntry)
+  }
+
+  return entries
+}
+
+function isGzip(data: Buffer) {
+  return data[0] === 0x1f && data[1] === 0x8b
+}
+
+function maybeGunzip(data: Buffer) {
+  return isGzip(data) ? gunzip(data) : data
+}
+
+// guards against entries like `../../etc/passwd`
+function isPathInArchiveRoot(root: string, target: string) {
+  return target === root || target.startsWith(root === '/' ? '/' : `${root}/`)
+}
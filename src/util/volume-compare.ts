@@ -1,6 +1,20 @@
 import { createHash } from 'node:crypto'
 import { isText } from 'istextorbinary'
-import type { VolumeMap, VolumeEntry } from './volume.js'
+import { isPlainObject } from './common.js'
+import { createTextDiff } from './text-diff.js'
+import { createNormalizer, type VolumeNormalizeOptions } from './volume-normalize.js'
+import { createPathMatcher } from './volume-entries.js'
+import {
+  hashContent,
+  resolveMetaFields,
+  type VolumeMap,
+  type VolumeEntry,
+  type VolumeEntryMeta,
+  type VolumeContentMatcher,
+  type VolumeMetaOptions,
+  type VolumeEntryTimes,
+  type VolumeTimeField,
+} from './volume.js'
 
 export type VolumeCompareListMatch =
   | 'exact' // directory contents must match exactly (default)
@@ -17,18 +31,43 @@ export type VolumeCompareReportType =
   | 'first' // stop on the first mismatch (default)
   | 'all' // collect all mismatches and show a combined diff
 
+export interface VolumeTimestampOptions {
+  // Paths or glob patterns that must keep the timestamps of the expected (baseline) volume.
+  unchanged?: string | string[]
+  // Paths or glob patterns whose timestamps must differ from the expected (baseline) volume.
+  changed?: string | string[]
+  // Timestamp fields to compare. Defaults to `['mtime']`.
+  fields?: VolumeTimeField[]
+}
+
 export interface VolumeCompareOptions {
+  // Limit the comparison to paths under this prefix, also used to resolve relative patterns.
+  prefix?: string
+  // Only compare paths matching these paths or glob patterns.
+  include?: string | string[]
+  // Leave out paths matching these paths or glob patterns.
+  exclude?: string | string[]
   // How to match the directory structure of the received volume to the expected volume.
   listMatch?: VolumeCompareListMatch
   // How to match the file contents of the received volume to the expected volume.
   contentMatch?: VolumeCompareContentMatch
   // How to report mismatches between the received volume and the expected volume.
   report?: VolumeCompareReportType
+  // Number of unchanged lines to show around each change in text file diffs. Defaults to `3`.
+  contextLines?: number
+  // Normalize text file contents before comparing them, `true` enables all built-in transforms.
+  normalize?: boolean | VolumeNormalizeOptions
+  // Compare JSON files as parsed data, `true` matches `**/*.json` or pass custom paths/glob patterns.
+  json?: boolean | string | string[]
+  // Compare entries metadata, `true` compares permission bits only.
+  metadata?: VolumeMetaOptions
+  // Assert that paths kept or changed their timestamps compared with the expected volume.
+  timestamps?: VolumeTimestampOptions
 }
 
 type VolumeCompareResult =
   | { pass: true }
-  | { pass: false; message: () => string; actual: DiffEntry; expected: DiffEntry }
+  | { pass: false; message: () => string; actual?: DiffEntry; expected?: DiffEntry }
 
 /**
  * Compare two volume maps.
@@ -54,7 +93,7 @@ export function compareVolumeMapsFirst(
   expected: VolumeMap,
   options?: Omit<VolumeCompareOptions, 'report'>,
 ): VolumeCompareResult {
-  const { listMatch, contentMatch } = options ?? {}
+  const { listMatch } = options ?? {}
   // make sorted arrays for error reporting and better diffing
   const actualFiles = Object.keys(received).sort()
   const expectedFiles = Object.keys(expected).sort()
@@ -114,10 +153,11 @@ export function compareVolumeMapsFirst(
     }
   }
 
-  const matchEntry = makeDiffMatcher(contentMatch)
+  const matchEntry = makeDiffMatcher(options)
   const filesToCheck = listMatch === 'ignore-missing' ? actualFiles : expectedFiles
   for (const file of filesToCheck) {
-    const { kind, exp, act } = matchEntry(file, expected[file], received[file])
+    const result = matchEntry(file, expected[file], received[file])
+    const { kind, exp, act, patch } = result
     if (kind === DiffKind.TypeMismatch) {
       return {
         pass: false,
@@ -127,6 +167,13 @@ export function compareVolumeMapsFirst(
       }
     }
     if (kind === DiffKind.FileMismatch) {
+      if (patch) {
+        // text diffs are more readable than the whole file contents
+        return {
+          pass: false,
+          message: () => `Found file content mismatch at \`${file}\`\n\n${patch()}`,
+        }
+      }
       return {
         pass: false,
         message: () => `Found file content mismatch at \`${file}\``,
@@ -134,6 +181,14 @@ export function compareVolumeMapsFirst(
         expected: exp,
       }
     }
+    if (kind === DiffKind.MetaMismatch) {
+      return {
+        pass: false,
+        message: () => `Found metadata mismatch at \`${file}\``,
+        actual: act,
+        expected: exp,
+      }
+    }
     if (kind === DiffKind.SymlinkMismatch) {
       return {
         pass: false,
@@ -142,6 +197,17 @@ export function compareVolumeMapsFirst(
         expected: exp,
       }
     }
+    if (result.kind === DiffKind.TimeMismatch) {
+      return {
+        pass: false,
+        message: () =>
+          result.changed
+            ? `Found changed timestamps at \`${file}\``
+            : `Expected timestamps to change at \`${file}\``,
+        actual: act,
+        expected: exp,
+      }
+    }
   }
 
   return { pass: true }
@@ -152,17 +218,20 @@ export function compareVolumeMapsAll(
   expected: VolumeMap,
   options?: Omit<VolumeCompareOptions, 'report'>,
 ): VolumeCompareResult {
-  const { listMatch, contentMatch } = options ?? {}
+  const { listMatch } = options ?? {}
   const ignoreMissingPaths = listMatch === 'ignore-missing'
   const ignoreExtraPaths = listMatch === 'ignore-extra'
-  const matchEntry = makeDiffMatcher(contentMatch)
+  const matchEntry = makeDiffMatcher(options)
 
   const actualDiff: Record<string, DiffEntry> = {}
   const expectedDiff: Record<string, DiffEntry> = {}
+  const patches: Array<() => string> = []
   let missingCount = 0
   let extraCount = 0
   let contentCount = 0
   let typeCount = 0
+  let metaCount = 0
+  let timeCount = 0
 
   const pathsToCheck = ignoreExtraPaths
     ? expected
@@ -170,7 +239,7 @@ export function compareVolumeMapsAll(
       ? received
       : { ...received, ...expected }
   for (const p in pathsToCheck) {
-    const { kind, exp, act } = matchEntry(p, expected[p], received[p])
+    const { kind, exp, act, patch } = matchEntry(p, expected[p], received[p])
     switch (kind) {
       case DiffKind.TypeMismatch:
         expectedDiff[p] = exp
@@ -181,8 +250,19 @@ export function compareVolumeMapsAll(
       case DiffKind.SymlinkMismatch:
         expectedDiff[p] = exp
         actualDiff[p] = act
+        if (patch) patches.push(patch)
         contentCount++
         break
+      case DiffKind.MetaMismatch:
+        expectedDiff[p] = exp
+        actualDiff[p] = act
+        metaCount++
+        break
+      case DiffKind.TimeMismatch:
+        expectedDiff[p] = exp
+        actualDiff[p] = act
+        timeCount++
+        break
       case DiffKind.Missing:
         if (!ignoreMissingPaths) {
           expectedDiff[p] = exp
@@ -202,20 +282,27 @@ export function compareVolumeMapsAll(
     }
   }
 
-  const total = missingCount + extraCount + contentCount + typeCount
+  const total = missingCount + extraCount + contentCount + typeCount + metaCount + timeCount
   if (total > 0) {
     const parts: string[] = []
     if (missingCount) parts.push(`${missingCount} missing path${missingCount > 1 ? 's' : ''}`)
     if (extraCount) parts.push(`${extraCount} unexpected path${extraCount > 1 ? 's' : ''}`)
     if (typeCount) parts.push(`${typeCount} path type mismatch${typeCount > 1 ? 'es' : ''}`)
     if (contentCount) parts.push(`${contentCount} mismatched content`)
+    if (metaCount) parts.push(`${metaCount} metadata mismatch${metaCount > 1 ? 'es' : ''}`)
+    if (timeCount) parts.push(`${timeCount} timestamp mismatch${timeCount > 1 ? 'es' : ''}`)
 
     return {
       pass: false,
-      message: () =>
-        parts.length === 1
-          ? `Found ${parts[0]}` //
-          : `Found ${total} mismatches: ${parts.join(', ')}`,
+      message: () => {
+        const summary =
+          parts.length === 1
+            ? `Found ${parts[0]}` //
+            : `Found ${total} mismatches: ${parts.join(', ')}`
+        return patches.length > 0
+          ? `${summary}\n\n${patches.map((patch) => patch()).join('\n\n')}`
+          : summary
+      },
       actual: actualDiff,
       expected: expectedDiff,
     }
@@ -224,7 +311,18 @@ export function compareVolumeMapsAll(
   return { pass: true }
 }
 
-type DiffEntry = Directory | File | BinaryFile | Symlink
+type DiffEntry =
+  | Directory
+  | File
+  | TextFile
+  | BinaryFile
+  | JSONFile
+  | Symlink
+  | Metadata
+  | Timestamps
+  | VolumeContentMatcher
+
+type FileEntry = Extract<VolumeEntry, { kind: 'file' }>
 
 enum DiffKind {
   Match = 0,
@@ -233,19 +331,38 @@ enum DiffKind {
   SymlinkMismatch = 3,
   Missing = 4,
   Extra = 5,
+  MetaMismatch = 6,
+  TimeMismatch = 7,
 }
 
 type DiffResult =
-  | { kind: DiffKind.Match; exp?: never; act?: never }
-  | { kind: DiffKind.TypeMismatch; exp: DiffEntry; act: DiffEntry }
-  | { kind: DiffKind.FileMismatch; exp: DiffEntry; act: DiffEntry }
-  | { kind: DiffKind.SymlinkMismatch; exp: DiffEntry; act: DiffEntry }
-  | { kind: DiffKind.Missing; exp: DiffEntry; act?: never }
-  | { kind: DiffKind.Extra; exp?: never; act: DiffEntry }
-
-function makeDiffMatcher(contentMatch?: VolumeCompareContentMatch) {
+  | { kind: DiffKind.Match; exp?: never; act?: never; patch?: never }
+  | { kind: DiffKind.TypeMismatch; exp: DiffEntry; act: DiffEntry; patch?: never }
+  | { kind: DiffKind.FileMismatch; exp: DiffEntry; act: DiffEntry; patch?: () => string }
+  | { kind: DiffKind.SymlinkMismatch; exp: DiffEntry; act: DiffEntry; patch?: never }
+  | { kind: DiffKind.MetaMismatch; exp: DiffEntry; act: DiffEntry; patch?: never }
+  | { kind: DiffKind.TimeMismatch; exp: DiffEntry; act: DiffEntry; patch?: never; changed: boolean }
+  | { kind: DiffKind.Missing; exp: DiffEntry; act?: never; patch?: never }
+  | { kind: DiffKind.Extra; exp?: never; act: DiffEntry; patch?: never }
+
+function makeDiffMatcher(options?: Omit<VolumeCompareOptions, 'report'>) {
+  const { prefix, contentMatch, contextLines, normalize, json, metadata, timestamps } =
+    options ?? {}
+  const metaFields = resolveMetaFields(metadata)
+  const timeFields = timestamps?.fields ?? ['mtime']
+  const isUnchanged = timestamps?.unchanged ? createPathMatcher(timestamps.unchanged, prefix) : null
+  const isChanged = timestamps?.changed ? createPathMatcher(timestamps.changed, prefix) : null
   const compareFiles = contentMatch !== 'ignore' && contentMatch !== 'ignore-files'
   const compareSymlinks = contentMatch !== 'ignore' && contentMatch !== 'ignore-symlinks'
+  const normalizer = compareFiles ? createNormalizer(normalize, prefix) : null
+  const isJSON = json ? createPathMatcher(json === true ? '**/*.json' : json, prefix) : null
+
+  function normalizeEntry(path: string, entry: VolumeEntry): VolumeEntry {
+    if (normalizer && entry?.kind === 'file') {
+      return { ...entry, data: normalizer(path, entry.data) }
+    }
+    return entry
+  }
 
   function makeDiff(path: string, entry: VolumeEntry): DiffEntry {
     if (entry.kind === 'empty-dir') {
@@ -254,6 +371,12 @@ function makeDiffMatcher(contentMatch?: VolumeCompareContentMatch) {
 
     if (entry.kind === 'file') {
       if (compareFiles) {
+        if (entry.matcher) {
+          return entry.matcher
+        }
+        if (entry.hash != null) {
+          return new HashedFile(entry.hash)
+        }
         return isText(path, entry.data) //
           ? new File(entry.data)
           : new BinaryFile(entry.data)
@@ -268,6 +391,9 @@ function makeDiffMatcher(contentMatch?: VolumeCompareContentMatch) {
   }
 
   function matchEntry(path: string, exp: VolumeEntry, act: VolumeEntry): DiffResult {
+    exp = normalizeEntry(path, exp)
+    act = normalizeEntry(path, act)
+
     if (exp && !act) {
       return { kind: DiffKind.Missing, exp: makeDiff(path, exp) }
     }
@@ -283,20 +409,136 @@ function makeDiffMatcher(contentMatch?: VolumeCompareContentMatch) {
       return { kind: DiffKind.TypeMismatch, exp: makeDiff(path, exp), act: makeDiff(path, act) }
     }
 
-    if (expKind === 'file' && compareFiles && !exp.data.equals((act as typeof exp).data)) {
-      return { kind: DiffKind.FileMismatch, exp: makeDiff(path, exp), act: makeDiff(path, act) }
+    // paths expected to change are only compared with the baseline by their timestamps,
+    // since their contents usually change along with them
+    const expectChange = !!isChanged?.(path)
+    if (expectChange || isUnchanged?.(path)) {
+      const expTimes = exp.times ?? {}
+      const actTimes = act.times ?? {}
+      const changed = timeFields.some((field) => expTimes[field] !== actTimes[field])
+      if (changed !== expectChange) {
+        return {
+          kind: DiffKind.TimeMismatch,
+          exp: new Timestamps(expTimes, timeFields),
+          act: new Timestamps(actTimes, timeFields),
+          changed,
+        }
+      }
     }
 
-    if (expKind === 'symlink' && compareSymlinks && exp.target !== (act as typeof exp).target) {
+    if (expKind === 'file' && compareFiles && !expectChange) {
+      const result = matchFile(path, exp, act as typeof exp)
+      if (result.kind !== DiffKind.Match) return result
+    }
+
+    if (
+      expKind === 'symlink' &&
+      compareSymlinks &&
+      !expectChange &&
+      exp.target !== (act as typeof exp).target
+    ) {
       return { kind: DiffKind.SymlinkMismatch, exp: makeDiff(path, exp), act: makeDiff(path, act) }
     }
 
+    // symlink permissions are not meaningful on most platforms
+    if (expKind !== 'symlink' && metaFields.length > 0) {
+      const expMeta = exp.meta ?? {}
+      const actMeta = act.meta ?? {}
+      if (metaFields.some((field) => expMeta[field] !== actMeta[field])) {
+        return {
+          kind: DiffKind.MetaMismatch,
+          exp: new Metadata(expMeta, metaFields),
+          act: new Metadata(actMeta, metaFields),
+        }
+      }
+    }
+
     return { kind: DiffKind.Match }
   }
 
+  function matchFile(path: string, exp: FileEntry, act: FileEntry): DiffResult {
+    if (exp.hash != null) {
+      const actHash = hashContent(act.data)
+      return actHash === exp.hash
+        ? { kind: DiffKind.Match }
+        : {
+            kind: DiffKind.FileMismatch,
+            exp: new HashedFile(exp.hash),
+            act: new HashedFile(actHash),
+          }
+    }
+
+    if (exp.matcher) {
+      return matchContent(exp.matcher, act.data.toString('utf8'))
+        ? { kind: DiffKind.Match }
+        : { kind: DiffKind.FileMismatch, exp: exp.matcher, act: makeDiff(path, act) }
+    }
+
+    if (exp.data.equals(act.data)) {
+      return { kind: DiffKind.Match }
+    }
+
+    if (isJSON?.(path)) {
+      const expJSON = parseJSON(exp.data)
+      const actJSON = parseJSON(act.data)
+      // fall back to comparing contents if either side isn't valid JSON
+      if (expJSON !== INVALID_JSON && actJSON !== INVALID_JSON) {
+        return canonicalJSON(expJSON) === canonicalJSON(actJSON)
+          ? { kind: DiffKind.Match }
+          : { kind: DiffKind.FileMismatch, exp: new JSONFile(expJSON), act: new JSONFile(actJSON) }
+      }
+    }
+
+    if (isText(path, exp.data) && isText(path, act.data)) {
+      return {
+        kind: DiffKind.FileMismatch,
+        exp: new TextFile(exp.data),
+        act: new TextFile(act.data),
+        patch: () =>
+          createTextDiff(path, exp.data.toString('utf8'), act.data.toString('utf8'), {
+            contextLines,
+          }),
+      }
+    }
+
+    return { kind: DiffKind.FileMismatch, exp: makeDiff(path, exp), act: makeDiff(path, act) }
+  }
+
   return matchEntry
 }
 
+const INVALID_JSON = Symbol('invalid-json')
+
+function parseJSON(buff: Buffer): unknown {
+  try {
+    return JSON.parse(buff.toString('utf8'))
+  } catch {
+    return INVALID_JSON
+  }
+}
+
+// stringify with sorted object keys, so key order doesn't matter
+function canonicalJSON(value: unknown) {
+  return JSON.stringify(value, (_, val) =>
+    isPlainObject(val)
+      ? Object.fromEntries(
+          Object.keys(val)
+            .sort()
+            .map((key) => [key, val[key]]),
+        )
+      : val,
+  )
+}
+
+function matchContent(matcher: VolumeContentMatcher, content: string) {
+  if (matcher instanceof RegExp) {
+    // reset state of global/sticky expressions between calls
+    matcher.lastIndex = 0
+    return matcher.test(content)
+  }
+  return matcher.asymmetricMatch(content)
+}
+
 class Directory {}
 
 class File {
@@ -308,7 +550,26 @@ class File {
   }
 }
 
-class BinaryFile {
+class TextFile {
+  hash: string
+  length: number
+  lines: number
+  constructor(buff: Buffer) {
+    this.hash = createHash('sha1').update(buff).digest('hex')
+    this.length = buff.length
+    const newlines = buff.reduce((count, byte) => (byte === 0x0a ? count + 1 : count), 0)
+    this.lines = buff.length > 0 && buff[buff.length - 1] !== 0x0a ? newlines + 1 : newlines
+  }
+}
+
+class JSONFile {
+  data: unknown
+  constructor(data: unknown) {
+    this.data = data
+  }
+}
+
+export class BinaryFile {
   hash: string
   length: number
   preview: string
@@ -321,6 +582,41 @@ class BinaryFile {
   }
 }
 
+class HashedFile {
+  hash: string
+  constructor(hash: string) {
+    this.hash = hash
+  }
+}
+
+class Metadata {
+  declare mode?: string
+  declare uid?: number
+  declare gid?: number
+  constructor(meta: VolumeEntryMeta, fields: Array<keyof VolumeEntryMeta>) {
+    for (const field of fields) {
+      if (field === 'mode') {
+        this.mode = meta.mode != null ? meta.mode.toString(8).padStart(4, '0') : undefined
+      } else {
+        this[field] = meta[field]
+      }
+    }
+  }
+}
+
+class Timestamps {
+  declare mtime?: string
+  declare ctime?: string
+  declare atime?: string
+  declare birthtime?: string
+  constructor(times: Partial<VolumeEntryTimes>, fields: VolumeTimeField[]) {
+    for (const field of fields) {
+      const ms = times[field]
+      this[field] = ms != null ? new Date(ms).toISOString() : undefined
+    }
+  }
+}
+
 class Symlink {
   declare target?: string
   constructor(target?: string) {
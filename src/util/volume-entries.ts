@@ -94,9 +94,7 @@ function createMatchRule(rawPath: string, prefix: string, config?: VolumeEntryRe
     throw new TypeError(`Expected entry count to be a positive integer, got \`${count}\``)
   }
 
-  const resolved = rawPath.startsWith('/')
-    ? path.posix.normalize(rawPath)
-    : path.posix.join(prefix, rawPath)
+  const resolved = resolvePattern(rawPath, prefix)
   const expType = type ?? 'any'
 
   if (isGlobLike(rawPath)) {
@@ -184,6 +182,69 @@ export function matchEntries(pathEntries: VolumePathEntry[], rules: MatchRules)
   }
 }
 
+/**
+ * Create a predicate that tests volume paths against exact paths or glob patterns.
+ * Relative patterns are resolved against `prefix`, exact paths also match their descendants.
+ */
+export function createPathMatcher(patterns: string | string[], prefix?: string) {
+  const basePrefix = resolvePrefix(prefix)
+  const tests = (Array.isArray(patterns) ? patterns : [patterns]).map((pattern) => {
+    const resolved = resolvePattern(pattern, basePrefix)
+    if (isGlobLike(pattern)) {
+      const regex = toRegex(resolved)
+      return (p: string) => regex.test(p)
+    }
+    const dirPrefix = resolved === '/' ? '/' : `${resolved}/`
+    return (p: string) => p === resolved || p.startsWith(dirPrefix)
+  })
+
+  return (p: string) => tests.some((test) => test(p))
+}
+
+export interface PathFilterOptions {
+  include?: string | string[]
+  exclude?: string | string[]
+  prefix?: string
+}
+
+export interface PathFilter {
+  // whether a directory and all of its contents are excluded
+  skips(path: string): boolean
+  // whether an entry passes both include and exclude patterns
+  accepts(path: string): boolean
+}
+
+/**
+ * Create a filter for include/exclude path patterns.
+ * Returns `null` if no patterns are given.
+ */
+export function createPathFilter(options: PathFilterOptions): PathFilter | null {
+  const { include, exclude, prefix } = options
+  const isIncluded = include?.length ? createPathMatcher(include, prefix) : null
+  const isExcluded = exclude?.length ? createPathMatcher(exclude, prefix) : null
+  if (!isIncluded && !isExcluded) return null
+
+  return {
+    skips: (p) => (isExcluded ? isExcluded(p) : false),
+    accepts: (p) => (!isIncluded || isIncluded(p)) && (!isExcluded || !isExcluded(p)),
+  }
+}
+
+/**
+ * Check whether a filter accepts a path and none of its parent directories are skipped,
+ * for flat lists of paths that are not walked from the root.
+ */
+export function filterAcceptsPath(filter: PathFilter, p: string) {
+  for (let dir = path.posix.dirname(p); dir !== '/'; dir = path.posix.dirname(dir)) {
+    if (filter.skips(dir)) return false
+  }
+  return filter.accepts(p)
+}
+
+function resolvePattern(pattern: string, prefix: string) {
+  return pattern.startsWith('/') ? path.posix.normalize(pattern) : path.posix.join(prefix, pattern)
+}
+
 function resolvePrefix(prefix?: string) {
   if (!prefix) return '/'
   const resolved = path.posix.resolve('/', prefix)
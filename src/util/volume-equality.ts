@@ -0,0 +1,37 @@
+import { Volume } from 'memfs'
+import { isPlainObject } from './common.js'
+import { volumeToMap } from './volume.js'
+import { specToVolumeMap } from './volume-spec.js'
+import { compareVolumeMaps } from './volume-compare.js'
+
+/**
+ * Equality tester for `toEqual`, `toStrictEqual` and other deep equality checks, comparing
+ * two volumes, or a volume and a `DirectoryJSON` object, by their contents like `toMatchVolume`.
+ * Other values are left to the default equality checks.
+ *
+ * @param a received value
+ * @param b expected value
+ */
+export function volumeEqualityTester(a: unknown, b: unknown): boolean | undefined {
+  if (a instanceof Volume) {
+    if (b instanceof Volume) {
+      return a === b || compareVolumeMaps(volumeToMap(a), volumeToMap(b)).pass
+    }
+    if (isDirectoryJSON(b)) {
+      return compareVolumeMaps(volumeToMap(a), specToVolumeMap(b)).pass
+    }
+  } else if (b instanceof Volume && isDirectoryJSON(a)) {
+    return compareVolumeMaps(volumeToMap(b), specToVolumeMap(a)).pass
+  }
+  return undefined
+}
+
+// flat `Volume.fromJSON` input, nested objects and spec helpers are only accepted by the matchers
+function isDirectoryJSON(value: unknown): value is Record<string, string | Buffer | null> {
+  return (
+    isPlainObject(value) &&
+    Object.values(value).every(
+      (content) => content === null || typeof content === 'string' || Buffer.isBuffer(content),
+    )
+  )
+}
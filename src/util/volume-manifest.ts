@@ -0,0 +1,273 @@
+import path from 'node:path'
+import pLimit from 'p-limit'
+import type { Volume } from 'memfs'
+import { importActualFS, isPlainObject } from './common.js'
+import { replaceFile, withDirLock } from './atomic-dir.js'
+import { createPathFilter, filterAcceptsPath } from './volume-entries.js'
+import { createNormalizer } from './volume-normalize.js'
+import {
+  hashContent,
+  volumeToMap,
+  type ReadDirToMapOptions,
+  type VolumeMap,
+  type WriteVolumeToDirOptions,
+} from './volume.js'
+
+// name of the manifest file in manifest snapshot directories
+export const MANIFEST_FILENAME = 'manifest.json'
+
+// name of the directory that stores file contents of manifest snapshots, keyed by hash
+export const BLOBS_DIRNAME = '.blobs'
+
+export interface VolumeManifestEntry {
+  // path relative to the volume prefix, starting with `/`
+  path: string
+  type: 'file' | 'symlink' | 'dir'
+  // symlink target
+  target?: string
+  // permission bits in octal
+  mode?: string
+  // size and sha256 hash of the file contents
+  size?: number
+  hash?: string
+  // the contents are not in the blob store, files are compared by hash only
+  hashOnly?: boolean
+}
+
+export interface VolumeManifest {
+  version: 1
+  // files, symlinks and empty directories sorted by path
+  entries: VolumeManifestEntry[]
+}
+
+export interface WriteVolumeManifestOptions
+  extends Omit<WriteVolumeToDirOptions, 'clear' | 'meta' | 'emptyDirMarkers'> {
+  // directory of the blob store, usually shared by several manifests
+  blobsDirPath: string
+  // store only the hash of files larger than this many bytes
+  maxBlobSize?: number
+  // remove the blobs this manifest doesn't use, for blob stores of a single manifest
+  pruneBlobs?: boolean
+}
+
+/**
+ * Write a volume as a manifest file into `targetDirPath`, with file contents in a
+ * content-addressed blob store, so identical files are only stored once.
+ *
+ * @param volume volume to write
+ * @param targetDirPath directory of the manifest
+ * @param options extra options
+ * @returns whether the manifest changed
+ */
+export async function writeVolumeManifest(
+  volume: Volume,
+  targetDirPath: string,
+  options: WriteVolumeManifestOptions,
+) {
+  const fsp = await importActualFS()
+  const {
+    blobsDirPath,
+    maxBlobSize = Infinity,
+    pruneBlobs,
+    prefix,
+    withData = true,
+    concurrency = 48,
+    normalize,
+    include,
+    exclude,
+  } = options
+  const realPrefix = (prefix ? path.posix.resolve('/', prefix) : '') + '/'
+  const map = volumeToMap(volume, {
+    prefix: realPrefix,
+    withData,
+    withMeta: true,
+    include,
+    exclude,
+  })
+  const normalizer = withData ? createNormalizer(normalize, prefix) : null
+  const blobs = new Map<string, Buffer>()
+  const entries: VolumeManifestEntry[] = []
+
+  for (const abs of Object.keys(map).sort()) {
+    const rel = `/${abs.slice(realPrefix.length)}`
+    const entry = map[abs]
+    const mode = entry.meta?.mode?.toString(8).padStart(4, '0')
+
+    if (entry.kind === 'file') {
+      const data = normalizer ? normalizer(abs, entry.data) : entry.data
+      const hash = hashContent(data)
+      const hashOnly = data.length > maxBlobSize
+      if (!hashOnly) blobs.set(hash, data)
+      entries.push({
+        path: rel,
+        type: 'file',
+        mode,
+        size: data.length,
+        hash,
+        ...(hashOnly && { hashOnly }),
+      })
+    } else if (entry.kind === 'symlink') {
+      entries.push({ path: rel, type: 'symlink', target: entry.target })
+    } else {
+      entries.push({ path: rel, type: 'dir', mode })
+    }
+  }
+
+  const manifest: VolumeManifest = { version: 1, entries }
+  const manifestJSON = JSON.stringify(manifest, null, 2) + '\n'
+  const manifestPath = path.join(targetDirPath, MANIFEST_FILENAME)
+
+  return withDirLock(targetDirPath, async () => {
+    // blobs never change once written, so existing ones are kept as is
+    await fsp.mkdir(blobsDirPath, { recursive: true })
+    const limit = pLimit(concurrency)
+    await Promise.all(
+      Array.from(blobs, ([hash, data]) =>
+        limit(async () => {
+          const blobPath = path.join(blobsDirPath, hash)
+          const exists = await fsp
+            .access(blobPath)
+            .then(() => true)
+            .catch(() => false)
+          if (!exists) {
+            await replaceFile(blobPath, (tempPath) => fsp.writeFile(tempPath, data))
+          }
+        }),
+      ),
+    )
+
+    if (pruneBlobs) {
+      const stored = await fsp.readdir(blobsDirPath)
+      await Promise.all(
+        stored
+          .filter((hash) => !blobs.has(hash))
+          .map((hash) => fsp.rm(path.join(blobsDirPath, hash), { force: true })),
+      )
+    }
+
+    if (manifestJSON === (await fsp.readFile(manifestPath, 'utf8').catch(() => null))) {
+      return false
+    }
+    await fsp.mkdir(targetDirPath, { recursive: true })
+    await replaceFile(manifestPath, (tempPath) => fsp.writeFile(tempPath, manifestJSON))
+    return true
+  })
+}
+
+export interface ReadVolumeManifestOptions extends ReadDirToMapOptions {
+  // directory of the blob store
+  blobsDirPath: string
+}
+
+/**
+ * Read a manifest written by {@link writeVolumeManifest} into a volume map, like `readDirToMap`.
+ * Files stored as hash only get a `hash` and no data. Only the `mode` metadata is stored.
+ *
+ * @param targetDirPath directory of the manifest
+ * @param options extra options
+ */
+export async function readVolumeManifest(
+  targetDirPath: string,
+  options: ReadVolumeManifestOptions,
+) {
+  const fsp = await importActualFS()
+  const {
+    blobsDirPath,
+    prefix = '',
+    withData = true,
+    withMeta,
+    concurrency = 48,
+    include,
+    exclude,
+  } = options
+  const manifest: VolumeManifest = JSON.parse(
+    await fsp.readFile(path.join(targetDirPath, MANIFEST_FILENAME), 'utf8'),
+  )
+  const map: VolumeMap = Object.create(null)
+  const filter = createPathFilter({ include, exclude, prefix })
+  const limit = pLimit(concurrency)
+  const EMPTY_BUFFER = Buffer.alloc(0)
+
+  await Promise.all(
+    manifest.entries.map(async (entry) => {
+      const key = path.posix.join('/', prefix, entry.path)
+      if (filter && !filterAcceptsPath(filter, key)) return
+      const meta = withMeta && entry.mode ? { mode: parseInt(entry.mode, 8) } : undefined
+
+      if (entry.type === 'file') {
+        if (!withData) {
+          map[key] = { kind: 'file', data: EMPTY_BUFFER, meta }
+        } else if (entry.hashOnly) {
+          map[key] = { kind: 'file', data: EMPTY_BUFFER, hash: entry.hash, meta }
+        } else {
+          const blobPath = path.join(blobsDirPath, entry.hash!)
+          map[key] = { kind: 'file', data: await limit(() => fsp.readFile(blobPath)), meta }
+        }
+      } else if (entry.type === 'symlink') {
+        map[key] = { kind: 'symlink', target: entry.target! }
+      } else {
+        map[key] = { kind: 'empty-dir', meta }
+      }
+    }),
+  )
+
+  return map
+}
+
+/**
+ * Remove the blobs that no manifest under `rootDirPath` refers to anymore.
+ * Files named like a manifest that are not one are ignored.
+ *
+ * @param rootDirPath directory holding the manifest snapshot directories
+ * @param blobsDirPath directory of the blob store
+ */
+export async function removeUnusedBlobs(rootDirPath: string, blobsDirPath: string) {
+  const fsp = await importActualFS()
+  const blobs = await fsp.readdir(blobsDirPath).catch(() => null)
+  if (!blobs) return
+
+  const used = new Set<string>()
+  async function walk(dirPath: string) {
+    for (const entry of await fsp.readdir(dirPath, { withFileTypes: true })) {
+      const entryPath = path.join(dirPath, entry.name)
+      if (entry.isDirectory() && entryPath !== blobsDirPath) {
+        await walk(entryPath)
+      } else if (entry.isFile() && entry.name === MANIFEST_FILENAME) {
+        // directory snapshots may contain a `manifest.json` of their own, skip anything else
+        const manifest = parseVolumeManifest(await fsp.readFile(entryPath, 'utf8'))
+        for (const { hash } of manifest?.entries ?? []) {
+          if (hash) used.add(hash)
+        }
+      }
+    }
+  }
+  await walk(rootDirPath)
+
+  await Promise.all(
+    blobs
+      .filter((hash) => !used.has(hash))
+      .map((hash) => fsp.rm(path.join(blobsDirPath, hash), { force: true })),
+  )
+  if (used.size === 0) {
+    await fsp.rm(blobsDirPath, { recursive: true, force: true })
+  }
+}
+
+// parse a manifest file, or return `null` if it isn't a manifest this version can read
+function parseVolumeManifest(json: string): VolumeManifest | null {
+  let manifest: unknown
+  try {
+    manifest = JSON.parse(json)
+  } catch {
+    return null
+  }
+  if (
+    !isPlainObject(manifest) ||
+    manifest.version !== 1 ||
+    !Array.isArray(manifest.entries) ||
+    !manifest.entries.every((entry) => isPlainObject(entry) && typeof entry.path === 'string')
+  ) {
+    return null
+  }
+  return manifest as VolumeManifest
+}
@@ -0,0 +1,59 @@
+import { isText } from 'istextorbinary'
+import { createPathMatcher } from './volume-entries.js'
+
+export type VolumeContentTransform = (path: string, text: string) => string
+
+export interface VolumeNormalizeOptions {
+  // Convert CRLF line endings to LF.
+  eol?: boolean
+  // Trim trailing whitespace at the end of every line.
+  trimTrailingWhitespace?: boolean
+  // Ignore a single newline at the end of files.
+  ignoreFinalNewline?: boolean
+  // Custom transforms keyed by path or glob pattern, applied before the built-in ones.
+  transform?: Record<string, VolumeContentTransform>
+}
+
+export type VolumeNormalizer = (path: string, data: Buffer) => Buffer
+
+/**
+ * Create a function that normalizes text file contents.
+ * Returns `null` if no normalization is configured.
+ *
+ * @param options normalize options, `true` enables all built-in transforms
+ * @param prefix prefix for resolving relative patterns in `transform`
+ */
+export function createNormalizer(
+  options: boolean | VolumeNormalizeOptions | undefined,
+  prefix?: string,
+): VolumeNormalizer | null {
+  if (!options) return null
+
+  const { eol, trimTrailingWhitespace, ignoreFinalNewline, transform } =
+    options === true
+      ? { eol: true, trimTrailingWhitespace: true, ignoreFinalNewline: true, transform: null }
+      : options
+  const transforms = Object.entries(transform ?? {}).map(
+    ([pattern, fn]) => [createPathMatcher(pattern, prefix), fn] as const,
+  )
+
+  if (!eol && !trimTrailingWhitespace && !ignoreFinalNewline && transforms.length === 0) {
+    return null
+  }
+
+  return (path, data) => {
+    if (!isText(path, data)) return data
+
+    const original = data.toString('utf8')
+    let text = original
+    for (const [match, fn] of transforms) {
+      if (match(path)) text = fn(path, text)
+    }
+    if (eol) text = text.replace(/\r\n/g, '\n')
+    if (trimTrailingWhitespace) text = text.replace(/[ \t]+(?=\r?$)/gm, '')
+    if (ignoreFinalNewline) text = text.replace(/\r?\n$/, '')
+
+    // keep the original buffer when nothing changed
+    return text === original ? data : Buffer.from(text, 'utf8')
+  }
+}
@@ -0,0 +1,179 @@
+import path from 'node:path'
+import { isText } from 'istextorbinary'
+import { Volume } from 'memfs'
+import { expect, type SnapshotSerializer } from 'vitest'
+import { volumeToMap, type VolumeEntry, type VolumeMap, type VolumeToMapOptions } from './volume.js'
+import { createNormalizer, type VolumeNormalizeOptions } from './volume-normalize.js'
+import { BinaryFile } from './volume-compare.js'
+
+export interface SerializeVolumeOptions extends Omit<VolumeToMapOptions, 'withMeta' | 'withTimes'> {
+  normalize?: boolean | VolumeNormalizeOptions
+}
+
+/**
+ * Serialize a volume into the text form of {@link serializeVolumeMap}.
+ *
+ * @param volume volume to serialize
+ * @param options extra options
+ */
+export function serializeVolume(volume: Volume, options?: SerializeVolumeOptions) {
+  const { prefix = '/', normalize, ...mapOptions } = options ?? {}
+  const map = volumeToMap(volume, { ...mapOptions, prefix })
+  const normalizer = createNormalizer(normalize, prefix)
+  if (normalizer) {
+    for (const [file, entry] of Object.entries(map)) {
+      if (entry.kind === 'file') entry.data = normalizer(file, entry.data)
+    }
+  }
+  return serializeVolumeMap(map, prefix)
+}
+
+// layout of the serialized tree, a subset of the pretty-format config
+interface SerializeTreeConfig {
+  indent: string
+  spacingOuter: string
+}
+
+const DEFAULT_TREE_CONFIG: SerializeTreeConfig = { indent: '  ', spacingOuter: '\n' }
+
+/**
+ * Serialize a volume map into a sorted directory tree, the format of {@link volumeSerializer}:
+ *
+ * ```
+ * Volume {
+ *   bin/
+ *     data.bin (binary, 1000 bytes, sha1 …, base64 u7u7…...u7u7…)
+ *   crlf.txt (escaped)
+ *     | windows line ending\r
+ *     |
+ *   foo.txt
+ *     | file contents
+ *   link.txt -> /foo.txt
+ *   logs/
+ * }
+ * ```
+ *
+ * @param map volume map to serialize
+ * @param prefix directory printed as the root of the tree
+ * @param config indentation and line separator
+ * @param indentation indentation of the enclosing value
+ */
+export function serializeVolumeMap(
+  map: VolumeMap,
+  prefix = '/',
+  config = DEFAULT_TREE_CONFIG,
+  indentation = '',
+) {
+  // nest the flat map, so directories print their entries below them
+  const root: TreeDir = new Map()
+  const rootPath = path.posix.resolve('/', prefix)
+  for (const abs of Object.keys(map)) {
+    const parts = path.posix.relative(rootPath, abs).split('/').filter(Boolean)
+    let dir = root
+    for (const part of parts.slice(0, -1)) {
+      if (!dir.has(part)) dir.set(part, new Map())
+      dir = dir.get(part) as TreeDir
+    }
+    // the root of an empty volume has no name
+    if (parts.length) dir.set(parts[parts.length - 1], map[abs])
+  }
+
+  const lines: string[] = []
+  const printDir = (dir: TreeDir, dirPath: string, indent: string) => {
+    for (const name of [...dir.keys()].sort()) {
+      const node = dir.get(name)!
+      const abs = path.posix.join(dirPath, name)
+      if (node instanceof Map) {
+        lines.push(`${indent}${name}/`)
+        printDir(node, abs, indent + config.indent)
+      } else {
+        lines.push(...serializeEntry(name, abs, node, indent, config.indent))
+      }
+    }
+  }
+  printDir(root, rootPath, indentation + config.indent)
+
+  if (lines.length === 0) {
+    return 'Volume {}'
+  }
+  const { spacingOuter } = config
+  return `Volume {${spacingOuter}${lines.join(spacingOuter)}${spacingOuter}${indentation}}`
+}
+
+// directories map entry names to their nested directories or entries
+type TreeDir = Map<string, TreeDir | VolumeEntry>
+
+/**
+ * Snapshot serializer that prints volumes as a sorted directory tree,
+ * see {@link serializeVolumeMap}.
+ */
+export const volumeSerializer: SnapshotSerializer = {
+  test: (val) => val instanceof Volume,
+  serialize(val: Volume, config, indentation, depth) {
+    if (++depth > config.maxDepth) {
+      return '[Volume]'
+    }
+    return serializeVolumeMap(volumeToMap(val), '/', config, indentation)
+  },
+}
+
+// text of a serialized volume, printed as is instead of as a quoted string
+class SerializedVolume {
+  constructor(readonly text: string) {}
+}
+
+const serializedVolumeSerializer: SnapshotSerializer = {
+  test: (val) => val instanceof SerializedVolume,
+  serialize: (val: SerializedVolume) => val.text,
+}
+
+let serializedVolumeSerializerAdded = false
+
+/**
+ * Wrap a serialized volume before passing it to vitest's `SnapshotState.match()`,
+ * so snapshots store the text as is, like other values printed by a serializer.
+ *
+ * @param serialized serialized volume, see {@link serializeVolume}
+ */
+export function toSnapshotValue(serialized: string) {
+  if (!serializedVolumeSerializerAdded) {
+    expect.addSnapshotSerializer(serializedVolumeSerializer)
+    serializedVolumeSerializerAdded = true
+  }
+  return new SerializedVolume(serialized)
+}
+
+// lines of a single entry, text file contents are indented below its name
+function serializeEntry(
+  name: string,
+  abs: string,
+  entry: VolumeEntry,
+  indent: string,
+  contentIndent: string,
+) {
+  if (entry.kind === 'empty-dir') {
+    return [`${indent}${name}/`]
+  }
+  if (entry.kind === 'symlink') {
+    return [`${indent}${name} -> ${entry.target}`]
+  }
+  if (isTextData(abs, entry.data)) {
+    const text = entry.data.toString('utf8')
+    // snapshot files normalize line endings, so carriage returns are escaped, and so are
+    // backslashes to tell them apart
+    const escaped = text.includes('\r')
+    const lines = [`${indent}${name}${escaped ? ' (escaped)' : ''}`]
+    for (let line of text.split('\n')) {
+      if (escaped) line = line.replace(/\\/g, '\\\\').replace(/\r/g, '\\r')
+      lines.push(`${indent}${contentIndent}|${line ? ` ${line}` : ''}`)
+    }
+    return lines
+  }
+  const { length, hash, preview } = new BinaryFile(entry.data)
+  return [`${indent}${name} (binary, ${length} bytes, sha1 ${hash}, base64 ${preview})`]
+}
+
+// only inline contents that survive a utf8 round trip
+function isTextData(path: string, data: Buffer) {
+  return isText(path, data) && Buffer.from(data.toString('utf8'), 'utf8').equals(data)
+}
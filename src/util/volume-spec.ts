@@ -0,0 +1,146 @@
+import path from 'node:path'
+import { Volume } from 'memfs'
+import { isAsymmetricMatcher, isPlainObject } from './common.js'
+import { volumeToMap, type VolumeContentMatcher, type VolumeToMapOptions } from './volume.js'
+
+export class VolumeSpecFile {
+  content: string | Buffer | VolumeContentMatcher
+  mode?: number
+  constructor(content: string | Buffer | VolumeContentMatcher, mode?: number) {
+    this.content = content
+    this.mode = mode
+  }
+}
+
+export class VolumeSpecSymlink {
+  target: string
+  constructor(target: string) {
+    this.target = target
+  }
+}
+
+export type VolumeSpecValue =
+  | string
+  | Buffer
+  | null
+  | VolumeContentMatcher
+  | VolumeSpecFile
+  | VolumeSpecSymlink
+  | VolumeSpec
+
+/**
+ * Declarative description of a volume. Keys are paths, values are file contents,
+ * `file()`, `binary()` or `symlink()` entries, or nested objects for directories.
+ * `null` and `{}` are empty directories. A flat `DirectoryJSON` is a valid spec.
+ */
+export interface VolumeSpec {
+  [path: string]: VolumeSpecValue
+}
+
+/**
+ * A file entry for a volume spec, with optional permission bits.
+ * The contents can also be a RegExp or an asymmetric matcher when used as expected value.
+ */
+export function file(content: string | Buffer | VolumeContentMatcher, options?: { mode?: number }) {
+  return new VolumeSpecFile(content, options?.mode)
+}
+
+/**
+ * A binary file entry for a volume spec.
+ */
+export function binary(data: Uint8Array | ArrayLike<number>, options?: { mode?: number }) {
+  return new VolumeSpecFile(Buffer.from(data as Uint8Array), options?.mode)
+}
+
+/**
+ * A symlink entry for a volume spec.
+ */
+export function symlink(target: string) {
+  return new VolumeSpecSymlink(target)
+}
+
+export interface CreateVolumeOptions {
+  // volume to create the entries in, defaults to a new volume
+  volume?: Volume
+}
+
+/**
+ * Create a volume from a spec. Relative top-level paths are resolved against the current
+ * directory, like `Volume.fromJSON`.
+ *
+ * @param spec volume spec
+ * @param options extra options
+ */
+export function createVolume(spec: VolumeSpec, options?: CreateVolumeOptions) {
+  const volume = options?.volume ?? new Volume()
+  writeSpec(volume, spec, null, null)
+  return volume
+}
+
+/**
+ * Get a volume map from a spec, where file contents can also be
+ * RegExp literals or asymmetric matchers.
+ */
+export function specToVolumeMap(spec: VolumeSpec, options?: VolumeToMapOptions) {
+  const volume = new Volume()
+  const matchers = new Map<string, VolumeContentMatcher>()
+  writeSpec(volume, spec, null, matchers)
+
+  const map = volumeToMap(volume, options)
+  matchers.forEach((matcher, key) => {
+    const entry = map[key]
+    if (entry?.kind === 'file') {
+      map[key] = { ...entry, matcher }
+    }
+  })
+
+  return map
+}
+
+function writeSpec(
+  volume: Volume,
+  spec: VolumeSpec,
+  dir: string | null,
+  matchers: Map<string, VolumeContentMatcher> | null,
+) {
+  for (const [key, value] of Object.entries(spec)) {
+    const entryPath =
+      dir == null ? path.posix.resolve(process.cwd(), key) : path.posix.join(dir, key)
+
+    if (value instanceof VolumeSpecSymlink) {
+      volume.mkdirSync(path.posix.dirname(entryPath), { recursive: true })
+      volume.symlinkSync(value.target, entryPath)
+    } else if (value === null) {
+      volume.mkdirSync(entryPath, { recursive: true })
+    } else if (isSpecDir(value)) {
+      volume.mkdirSync(entryPath, { recursive: true })
+      writeSpec(volume, value, entryPath, matchers)
+    } else {
+      const { content, mode } = value instanceof VolumeSpecFile ? value : { content: value }
+      volume.mkdirSync(path.posix.dirname(entryPath), { recursive: true })
+      if (typeof content === 'string' || Buffer.isBuffer(content)) {
+        volume.writeFileSync(entryPath, content)
+      } else if (content instanceof RegExp || isAsymmetricMatcher(content)) {
+        if (!matchers) {
+          throw new TypeError(
+            `Matchers can only be used in expected volumes, got one at \`${entryPath}\``,
+          )
+        }
+        // create a placeholder file, its contents are checked by the matcher
+        volume.writeFileSync(entryPath, '')
+        matchers.set(entryPath, content)
+      } else {
+        throw new TypeError(
+          `Expected the value at \`${entryPath}\` to be string | Buffer | null | plain object ` +
+            `| file() | binary() | symlink(), got \`${JSON.stringify(content)}\``,
+        )
+      }
+      if (mode != null) volume.chmodSync(entryPath, mode)
+    }
+  }
+}
+
+// nested objects are directories, asymmetric matchers are plain objects too
+function isSpecDir(value: VolumeSpecValue): value is VolumeSpec {
+  return isPlainObject(value) && !isAsymmetricMatcher(value) && !(value instanceof VolumeSpecFile)
+}
@@ -1,46 +1,120 @@
 import path from 'node:path'
+import { createHash } from 'node:crypto'
 import pLimit from 'p-limit'
-import type { Volume } from 'memfs'
-import { importActualFS } from './common.js'
+import { Volume } from 'memfs'
+import { importActualFS, type AsymmetricMatcherLike } from './common.js'
+import { createNormalizer, type VolumeNormalizeOptions } from './volume-normalize.js'
+import { createPathFilter } from './volume-entries.js'
+import { replaceDir } from './atomic-dir.js'
+
+export type VolumeContentMatcher = RegExp | AsymmetricMatcherLike
+
+export interface VolumeEntryMeta {
+  mode?: number
+  uid?: number
+  gid?: number
+}
+
+export interface VolumeEntryTimes {
+  mtime: number
+  ctime: number
+  atime: number
+  birthtime: number
+}
 
 export type VolumeEntry =
-  | { kind: 'file'; data: Buffer }
-  | { kind: 'symlink'; target: string }
-  | { kind: 'empty-dir' }
+  // `hash` is set instead of `data` when only the hash of the contents is known
+  (
+    | { kind: 'file'; data: Buffer; matcher?: VolumeContentMatcher; hash?: string }
+    | { kind: 'symlink'; target: string }
+    | { kind: 'empty-dir' }
+  ) & { meta?: VolumeEntryMeta; times?: VolumeEntryTimes }
 
 export interface VolumeMap {
   [path: string]: VolumeEntry
 }
 
-interface VolumeToMapOptions {
+export type VolumeMetaField = keyof VolumeEntryMeta
+
+export type VolumeTimeField = keyof VolumeEntryTimes
+
+export type VolumeMetaOptions = boolean | { [K in VolumeMetaField]?: boolean }
+
+/**
+ * Get the list of metadata fields to compare or store, `true` means permission bits only.
+ */
+export function resolveMetaFields(options?: VolumeMetaOptions): VolumeMetaField[] {
+  if (!options) return []
+  if (options === true) return ['mode']
+  return (['mode', 'uid', 'gid'] as const).filter((field) => options[field])
+}
+
+/**
+ * Hash file contents, as found in the `hash` of file entries.
+ */
+export function hashContent(data: Buffer) {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+// name of the file that stores entries metadata in snapshot directories
+export const META_FILENAME = '.volume-meta.json'
+
+// name of the placeholder file that keeps empty directories in version control
+export const EMPTY_DIR_MARKER = '.volume-keep'
+
+export interface VolumeToMapOptions {
   prefix?: string
   withData?: boolean
+  withMeta?: boolean
+  withTimes?: boolean
+  include?: string | string[]
+  exclude?: string | string[]
 }
 
 /**
  * Get a filename -> Buffer map from current volume.
  */
 export function volumeToMap(volume: Volume, options?: VolumeToMapOptions) {
-  const { prefix = '/', withData = true } = options ?? {}
+  const { prefix = '/', withData = true, withMeta, withTimes, include, exclude } = options ?? {}
   const map: VolumeMap = Object.create(null)
+  const filter = createPathFilter({ include, exclude, prefix })
 
   function walk(curr: string) {
+    if (filter?.skips(curr)) return
     const stats = volume.lstatSync(curr)
+    const meta = withMeta
+      ? { mode: Number(stats.mode) & 0o7777, uid: Number(stats.uid), gid: Number(stats.gid) }
+      : undefined
+    const times = withTimes
+      ? {
+          mtime: Number(stats.mtimeMs),
+          ctime: Number(stats.ctimeMs),
+          atime: Number(stats.atimeMs),
+          birthtime: Number(stats.birthtimeMs),
+        }
+      : undefined
     if (stats.isDirectory()) {
       const list = volume.readdirSync(curr) as string[]
-      if (list.length === 0) map[curr] = { kind: 'empty-dir' }
+      if (list.length === 0 && (!filter || filter.accepts(curr))) {
+        map[curr] = { kind: 'empty-dir', meta, times }
+      }
       for (const name of list) {
         walk(path.posix.join(curr, name))
       }
+    } else if (filter && !filter.accepts(curr)) {
+      return
     } else if (stats.isFile()) {
       map[curr] = {
         kind: 'file', //
         data: withData ? (volume.readFileSync(curr) as Buffer) : Buffer.alloc(0),
+        meta,
+        times,
       }
     } else if (stats.isSymbolicLink()) {
       map[curr] = {
         kind: 'symlink', //
         target: volume.readlinkSync(curr) as string,
+        times,
       }
     }
   }
@@ -49,23 +123,41 @@ export function volumeToMap(volume: Volume, options?: VolumeToMapOptions) {
   return map
 }
 
-export interface ReadDirToMapOptions extends VolumeToMapOptions {
+export interface ReadDirToMapOptions extends Omit<VolumeToMapOptions, 'withTimes'> {
   concurrency?: number
+  // hide `EMPTY_DIR_MARKER` files, like those written by `writeVolumeToDir`
+  emptyDirMarkers?: boolean
 }
 
 export async function readDirToMap(targetDirPath: string, options?: ReadDirToMapOptions) {
   const fsp = await importActualFS()
-  const { prefix = '', withData = true, concurrency = 48 } = options ?? {}
+  const {
+    prefix = '',
+    withData = true,
+    withMeta,
+    concurrency = 48,
+    include,
+    exclude,
+    emptyDirMarkers,
+  } = options ?? {}
   const map: VolumeMap = Object.create(null)
+  const filter = createPathFilter({ include, exclude, prefix })
 
   const limit = pLimit(concurrency)
   const EMPTY_BUFFER = Buffer.alloc(0)
 
   async function walk(dirPath: string) {
-    const entries = await fsp.readdir(dirPath, { withFileTypes: true })
+    const entries = (await fsp.readdir(dirPath, { withFileTypes: true })).filter(
+      // the metadata file and empty dir markers are not part of the snapshot contents,
+      // files of the same name are when they were not written with the matching option
+      (entry) =>
+        !(withMeta && dirPath === targetDirPath && entry.name === META_FILENAME) &&
+        !(emptyDirMarkers && entry.name === EMPTY_DIR_MARKER && entry.isFile()),
+    )
     if (entries.length === 0) {
       const rel = path.posix.relative(targetDirPath, dirPath)
-      map[path.posix.join('/', prefix, rel)] = { kind: 'empty-dir' }
+      const key = path.posix.join('/', prefix, rel)
+      if (!filter || filter.accepts(key)) map[key] = { kind: 'empty-dir' }
     }
 
     await Promise.all(
@@ -75,7 +167,9 @@ export async function readDirToMap(targetDirPath: string, options?: ReadDirToMap
         const key = path.posix.join('/', prefix, rel)
 
         if (entry.isDirectory()) {
-          await walk(abs)
+          if (!filter?.skips(key)) await walk(abs)
+        } else if (filter && !filter.accepts(key)) {
+          return
         } else if (entry.isFile()) {
           map[key] = {
             kind: 'file',
@@ -92,12 +186,95 @@ export async function readDirToMap(targetDirPath: string, options?: ReadDirToMap
   }
 
   await walk(targetDirPath)
+
+  if (withMeta) {
+    const metaJSON = await fsp
+      .readFile(path.join(targetDirPath, META_FILENAME), 'utf8')
+      .then((json) => JSON.parse(json) as Record<string, StoredEntryMeta>)
+      .catch(() => ({}))
+    for (const [rel, stored] of Object.entries(metaJSON)) {
+      const entry = map[path.posix.join('/', prefix, rel)]
+      if (entry) {
+        entry.meta = {
+          ...stored,
+          mode: stored.mode != null ? parseInt(stored.mode, 8) : undefined,
+        }
+      }
+    }
+  }
+
   return map
 }
 
-export interface WriteVolumeToDirOptions extends VolumeToMapOptions {
+/**
+ * Write the entries of a volume map into a volume, creating parent directories as needed.
+ * Modes, and `atime` / `mtime` timestamps, are applied when the map has them.
+ *
+ * @param map volume map to write
+ * @param volume volume to write into, defaults to a new volume
+ */
+export function mapToVolume(map: VolumeMap, volume = new Volume()) {
+  for (const [p, entry] of Object.entries(map)) {
+    if (entry.kind === 'empty-dir') {
+      volume.mkdirSync(p, { recursive: true })
+    } else {
+      volume.mkdirSync(path.posix.dirname(p), { recursive: true })
+      if (entry.kind === 'file') {
+        volume.writeFileSync(p, entry.data)
+      } else {
+        volume.symlinkSync(entry.target, p)
+      }
+    }
+    if (entry.kind !== 'symlink' && entry.meta?.mode != null) volume.chmodSync(p, entry.meta.mode)
+    if (entry.times) {
+      const atime = new Date(entry.times.atime)
+      const mtime = new Date(entry.times.mtime)
+      if (entry.kind === 'symlink') volume.lutimesSync(p, atime, mtime)
+      else volume.utimesSync(p, atime, mtime)
+    }
+  }
+  return volume
+}
+
+/**
+ * Copy a volume along with its modes and `atime` / `mtime` timestamps. Use it to keep a
+ * baseline for the `timestamps` option of `toMatchVolume` before the volume changes, since
+ * `createVolume` and `Volume.fromJSON` give every entry new timestamps.
+ *
+ * @param volume volume to copy
+ */
+export function cloneVolume(volume: Volume) {
+  return mapToVolume(volumeToMap(volume, { withMeta: true, withTimes: true }))
+}
+
+export interface LoadVolumeFromDirOptions extends Omit<ReadDirToMapOptions, 'withData'> {
+  // volume to load the directory into, defaults to a new volume
+  volume?: Volume
+}
+
+/**
+ * Load a real directory into a memfs volume, keeping symlinks and empty directories.
+ * The directory is read through the actual `fs` module, so it works when `fs` is mocked.
+ *
+ * @param targetDirPath directory to load
+ * @param options extra options, `prefix` is the directory to load it into
+ */
+export async function loadVolumeFromDir(targetDirPath: string, options?: LoadVolumeFromDirOptions) {
+  const { volume, ...mapOptions } = options ?? {}
+  return mapToVolume(await readDirToMap(targetDirPath, mapOptions), volume)
+}
+
+// metadata as stored in the snapshot metadata file, with octal modes for readability
+type StoredEntryMeta = Omit<VolumeEntryMeta, 'mode'> & { mode?: string }
+
+export interface WriteVolumeToDirOptions
+  extends Omit<VolumeToMapOptions, 'withMeta' | 'withTimes'> {
   clear?: boolean
   concurrency?: number
+  normalize?: boolean | VolumeNormalizeOptions
+  meta?: VolumeMetaOptions
+  // write an `EMPTY_DIR_MARKER` file into empty directories, read them back with the same option
+  emptyDirMarkers?: boolean
 }
 
 export async function writeVolumeToDir(
@@ -105,43 +282,238 @@ export async function writeVolumeToDir(
   targetDirPath: string,
   options?: WriteVolumeToDirOptions,
 ) {
-  const fsp = await importActualFS()
-  const { prefix, clear, withData = true, concurrency = 48 } = options ?? {}
-  const realPrefix = (prefix ? path.posix.resolve('/', prefix) : '') + '/'
-  const map = volumeToMap(volume, { prefix: realPrefix })
+  const { clear } = options ?? {}
+  const { entries, metaJSON } = prepareVolumeEntries(volume, options)
+  const write = (dirPath: string) => writeVolumeEntries(dirPath, entries, metaJSON, options)
 
+  // the existing directory is only replaced once the new one is fully written
   if (clear) {
-    await fsp.rm(targetDirPath, { recursive: true, force: true })
+    await replaceDir(targetDirPath, write)
+  } else {
+    await write(targetDirPath)
   }
+}
+
+export interface SyncVolumeToDirOptions extends Omit<WriteVolumeToDirOptions, 'clear'> {}
+
+export interface VolumeDirChanges {
+  added: number
+  updated: number
+  removed: number
+}
 
+/**
+ * Update an existing directory to mirror a volume, like `writeVolumeToDir` with `clear`.
+ * The new tree is written next to the directory and swapped in with a rename, so a failed
+ * update leaves the directory as it was. Unchanged files are hard linked (or copied) from the
+ * existing directory, so their contents are never rewritten, and a directory without changes
+ * is not replaced at all.
+ *
+ * @param volume volume to write
+ * @param targetDirPath directory to update
+ * @param options extra options
+ * @returns number of added, updated and removed entries, entries whose metadata changed
+ * count as updated
+ */
+export async function syncVolumeToDir(
+  volume: Volume,
+  targetDirPath: string,
+  options?: SyncVolumeToDirOptions,
+): Promise<VolumeDirChanges> {
+  const fsp = await importActualFS()
+  const { concurrency = 48, emptyDirMarkers } = options ?? {}
+  const { entries, metaJSON } = prepareVolumeEntries(volume, options)
+  const changes: VolumeDirChanges = { added: 0, updated: 0, removed: 0 }
+
+  await replaceDir(targetDirPath, async (stagingPath) => {
+    const existing = await readDirToMap(targetDirPath, {
+      concurrency,
+      emptyDirMarkers,
+      withMeta: metaJSON != null,
+    })
+    const isParentOfEntry = (rel: string) => {
+      for (const key of entries.keys()) {
+        if (key.startsWith(`${rel}/`)) return true
+      }
+      return false
+    }
+
+    // files that are linked from the existing directory instead of written
+    const unchangedFiles = new Set<string>()
+    const changedEntries = new Set<string>()
+    for (const [rel, entry] of entries) {
+      const prev = existing[path.posix.join('/', rel)]
+      if (entry.kind === 'file' && prev?.kind === 'file' && prev.data.equals(entry.data)) {
+        unchangedFiles.add(rel)
+      } else if (
+        !rel ||
+        (entry.kind === 'symlink' && prev?.kind === 'symlink' && prev.target === entry.target) ||
+        (entry.kind === 'empty-dir' && prev?.kind === 'empty-dir')
+      ) {
+        continue
+      } else {
+        changedEntries.add(rel)
+        if (prev) changes.updated++
+        else changes.added++
+      }
+    }
+    for (const [key, entry] of Object.entries(existing)) {
+      const rel = key.slice(1)
+      // a directory that is no longer empty is not removed
+      if (rel && !entries.has(rel) && !(entry.kind === 'empty-dir' && isParentOfEntry(rel))) {
+        changes.removed++
+      }
+    }
+
+    // without metadata, a previous metadata file is read and removed as a regular file
+    const prevMetaJSON =
+      metaJSON != null
+        ? await fsp.readFile(path.join(targetDirPath, META_FILENAME), 'utf8').catch(() => null)
+        : null
+    if (metaJSON != null && metaJSON !== prevMetaJSON) {
+      const prevMeta = parseStoredMeta(prevMetaJSON)
+      for (const [key, meta] of Object.entries(parseStoredMeta(metaJSON))) {
+        const rel = key.slice(1)
+        if (changedEntries.has(rel) || JSON.stringify(meta) === JSON.stringify(prevMeta[key])) {
+          continue
+        }
+        changes.updated++
+      }
+    }
+
+    // markers are not part of the contents, so adding or removing them is not a change,
+    // but still needs a new tree
+    const markersChanged =
+      emptyDirMarkers &&
+      (
+        await Promise.all(
+          Array.from(entries)
+            .filter(([rel, entry]) => rel && entry.kind === 'empty-dir')
+            .map(([rel]) =>
+              fsp.access(path.join(targetDirPath, rel, EMPTY_DIR_MARKER)).then(
+                () => false,
+                () => true,
+              ),
+            ),
+        )
+      ).includes(true)
+
+    if (
+      changes.added + changes.updated + changes.removed === 0 &&
+      metaJSON === prevMetaJSON &&
+      !markersChanged
+    ) {
+      return false
+    }
+    await writeVolumeEntries(stagingPath, entries, metaJSON, options, (rel) =>
+      unchangedFiles.has(rel) ? path.join(targetDirPath, rel) : null,
+    )
+    return true
+  })
+
+  return changes
+}
+
+/**
+ * Write volume entries into a directory.
+ *
+ * @param dirPath directory to write into
+ * @param entries entries to write, keyed by path relative to the directory
+ * @param metaJSON contents of the metadata file, if any
+ * @param options concurrency and empty dir marker options
+ * @param getSourcePath gives an existing copy of a file to link instead of writing it
+ */
+async function writeVolumeEntries(
+  dirPath: string,
+  entries: Map<string, VolumeEntry>,
+  metaJSON: string | null,
+  options?: Pick<WriteVolumeToDirOptions, 'concurrency' | 'emptyDirMarkers'>,
+  getSourcePath?: (rel: string) => string | null,
+) {
+  const fsp = await importActualFS()
+  const { concurrency = 48, emptyDirMarkers } = options ?? {}
   const writeDirs = new Set<string>()
   const writeOps: Array<() => Promise<void>> = []
 
-  for (const abs in map) {
-    // strip prefix
-    const rel = abs.slice(realPrefix.length)
-    const targetPath = path.join(targetDirPath, rel)
-    const entry = map[abs]
-
+  for (const [rel, entry] of entries) {
+    const targetPath = path.join(dirPath, rel)
     if (entry.kind === 'file') {
+      const sourcePath = getSourcePath?.(rel)
       writeDirs.add(path.dirname(targetPath))
-      writeOps.push(() => fsp.writeFile(targetPath, withData ? entry.data : Buffer.alloc(0)))
+      writeOps.push(() =>
+        sourcePath
+          ? // links keep the contents untouched, copies are for file systems without them
+            fsp.link(sourcePath, targetPath).catch(() => fsp.copyFile(sourcePath, targetPath))
+          : fsp.writeFile(targetPath, entry.data),
+      )
     } else if (entry.kind === 'symlink') {
       writeDirs.add(path.dirname(targetPath))
       writeOps.push(async () => fsp.symlink(entry.target, targetPath))
     } else if (entry.kind === 'empty-dir') {
       writeDirs.add(targetPath)
+      if (emptyDirMarkers) {
+        writeOps.push(() => fsp.writeFile(path.join(targetPath, EMPTY_DIR_MARKER), ''))
+      }
     }
   }
 
   // ensure directories exist
   await Promise.all(Array.from(writeDirs).map((dir) => fsp.mkdir(dir, { recursive: true })))
 
+  if (metaJSON != null) {
+    writeOps.push(() => fsp.writeFile(path.join(dirPath, META_FILENAME), metaJSON))
+  }
+
   // run file/symlink writes with concurrency limit
   const limit = pLimit(concurrency)
   await Promise.all(writeOps.map((op) => limit(op)))
 }
 
+function parseStoredMeta(json: string | null): Record<string, StoredEntryMeta> {
+  try {
+    return JSON.parse(json ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+// volume entries as written to disk, keyed by path relative to the target directory
+function prepareVolumeEntries(volume: Volume, options?: WriteVolumeToDirOptions) {
+  const { prefix, withData = true, normalize, include, exclude, meta } = options ?? {}
+  const realPrefix = (prefix ? path.posix.resolve('/', prefix) : '') + '/'
+  const metaFields = resolveMetaFields(meta)
+  const withMeta = metaFields.length > 0
+  const map = volumeToMap(volume, { prefix: realPrefix, include, exclude, withMeta })
+  const normalizer = withData ? createNormalizer(normalize, prefix) : null
+  const entries = new Map<string, VolumeEntry>()
+  const metaJSON: Record<string, StoredEntryMeta> = {}
+
+  for (const abs in map) {
+    // strip prefix
+    const rel = abs.slice(realPrefix.length)
+    const entry = map[abs]
+
+    if (withMeta && entry.meta) {
+      const { mode, uid, gid } = entry.meta
+      metaJSON[`/${rel}`] = {
+        mode: metaFields.includes('mode') ? mode.toString(8).padStart(4, '0') : undefined,
+        uid: metaFields.includes('uid') ? uid : undefined,
+        gid: metaFields.includes('gid') ? gid : undefined,
+      }
+    }
+
+    if (entry.kind === 'file') {
+      let data = withData ? entry.data : Buffer.alloc(0)
+      if (normalizer) data = normalizer(abs, data)
+      entries.set(rel, { ...entry, data })
+    } else {
+      entries.set(rel, entry)
+    }
+  }
+
+  return { entries, metaJSON: withMeta ? JSON.stringify(metaJSON, null, 2) : null }
+}
+
 export type VolumePathType = 'file' | 'dir' | 'symlink' | 'other'
 
 export type VolumePathEntry = [path: string, type: VolumePathType]
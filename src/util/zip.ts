@@ -0,0 +1,197 @@
+import zlib from 'node:zlib'
+import type { TarEntry } from './tar.js'
+
+// zip has no owners without extra fields
+export type ZipEntry = Omit<TarEntry, 'uid' | 'gid'>
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIR = 0x06054b50
+
+// made by unix, so readers use the mode in the external attributes
+const VERSION_MADE_BY = (3 << 8) | 20
+const VERSION_NEEDED = 20
+// file names are utf8
+const FLAG_UTF8 = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+// 1980-01-01 00:00, the earliest dos date, so packing the same entries gives the same archive
+const DOS_DATE = (1 << 5) | 1
+
+const S_IFMT = 0o170000
+const S_IFLNK = 0o120000
+const S_IFDIR = 0o040000
+const S_IFREG = 0o100000
+
+const DEFAULT_MODES: Record<ZipEntry['type'], number> = { file: 0o644, symlink: 0o777, dir: 0o755 }
+
+/**
+ * Pack entries into a zip archive. Files are deflated when that makes them smaller,
+ * symlinks are stored as files holding their target, flagged by the unix mode.
+ *
+ * @param entries entries to pack, in order
+ */
+export function packZip(entries: ZipEntry[]) {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.type === 'dir' ? `${entry.path}/` : entry.path)
+    const data =
+      entry.type === 'file'
+        ? (entry.data ?? Buffer.alloc(0))
+        : Buffer.from(entry.type === 'symlink' ? entry.target! : '')
+    const deflated = entry.type === 'file' && data.length > 0 ? zlib.deflateRawSync(data) : null
+    const [method, stored] =
+      deflated && deflated.length < data.length ? [METHOD_DEFLATE, deflated] : [METHOD_STORE, data]
+    const fileType = entry.type === 'file' ? S_IFREG : entry.type === 'symlink' ? S_IFLNK : S_IFDIR
+    const mode = fileType | ((entry.mode ?? DEFAULT_MODES[entry.type]) & 0o7777)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_HEADER, 0)
+    local.writeUInt16LE(VERSION_NEEDED, 4)
+    local.writeUInt16LE(FLAG_UTF8, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(0, 10)
+    local.writeUInt16LE(DOS_DATE, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(stored.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_HEADER, 0)
+    central.writeUInt16LE(VERSION_MADE_BY, 4)
+    central.writeUInt16LE(VERSION_NEEDED, 6)
+    central.writeUInt16LE(FLAG_UTF8, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(0, 12)
+    central.writeUInt16LE(DOS_DATE, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(stored.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    // extra field, comment, disk number and internal attributes are all zero
+    // the msdos directory flag is set for tools that ignore the unix mode
+    central.writeUInt32LE(((mode << 16) | (entry.type === 'dir' ? 0x10 : 0)) >>> 0, 38)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, stored)
+    centralParts.push(central, name)
+    offset += local.length + name.length + stored.length
+  }
+
+  const centralDir = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIR, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDir.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDir, end])
+}
+
+/**
+ * Unpack the files, symlinks and directories of a zip archive, in central directory order.
+ * Supports stored and deflated entries, zip64 archives are not supported.
+ *
+ * @param buffer archive contents
+ */
+export function unpackZip(buffer: Buffer) {
+  const entries: ZipEntry[] = []
+
+  // the end record is followed by a comment of up to 64kb
+  let end = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) {
+    throw new Error('Invalid zip archive: end of central directory not found')
+  }
+
+  const count = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new Error(`Invalid zip archive: bad central directory header at offset ${offset}`)
+    }
+    const madeBy = buffer.readUInt16LE(offset + 4) >> 8
+    const method = buffer.readUInt16LE(offset + 10)
+    const storedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const attributes = buffer.readUInt32LE(offset + 38)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    const path = name.replace(/^(\.\/)+/, '').replace(/\/+$/, '')
+    if (!path) continue
+    // only archives made on unix hosts have a mode
+    const mode = madeBy === 3 ? attributes >>> 16 : 0
+    if (name.endsWith('/') || (mode & S_IFMT) === S_IFDIR) {
+      entries.push({ path, type: 'dir', mode: mode ? mode & 0o7777 : undefined })
+      continue
+    }
+
+    const dataOffset =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28)
+    const stored = buffer.subarray(dataOffset, dataOffset + storedSize)
+    let data: Buffer
+    if (method === METHOD_STORE) {
+      data = Buffer.from(stored)
+    } else if (method === METHOD_DEFLATE) {
+      data = zlib.inflateRawSync(stored)
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for \`${path}\``)
+    }
+
+    if ((mode & S_IFMT) === S_IFLNK) {
+      entries.push({ path, type: 'symlink', target: data.toString('utf8') })
+    } else {
+      entries.push({ path, type: 'file', data, mode: mode ? mode & 0o7777 : undefined })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Check whether a buffer starts like a zip archive.
+ */
+export function isZip(buffer: Buffer) {
+  return (
+    buffer.length >= 4 &&
+    (buffer.readUInt32LE(0) === LOCAL_HEADER || buffer.readUInt32LE(0) === END_OF_CENTRAL_DIR)
+  )
+}
+
+let crcTable: Uint32Array | undefined
+
+function crc32(data: Buffer) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}